@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { planLintAutofix } from "./autofix.js";
+import { summarizeLint } from "../collector/eslint.js";
+import { getDefaultConfig } from "../config/greenlit.config.js";
+import type { FailureContext, LintViolation } from "../collector/types.js";
+
+const violation = (file: string, fixable: boolean): LintViolation => ({
+  file,
+  line: 1,
+  column: 1,
+  ruleId: "semi",
+  severity: "error",
+  message: "Missing semicolon",
+  fixable
+});
+
+function lintContext(violations: LintViolation[]): FailureContext {
+  return { failureType: "lint", lint: summarizeLint(violations) } as FailureContext;
+}
+
+describe("planLintAutofix", () => {
+  it("plans the fixer over the files with errors when all are fixable", () => {
+    const plan = planLintAutofix(
+      lintContext([violation("src/app.ts", true), violation("src/app.ts", true), violation("src/my util.ts", true)]),
+      getDefaultConfig()
+    );
+
+    expect(plan).toEqual({
+      allowed: true,
+      files: ["src/app.ts", "src/my util.ts"],
+      commands: ["npx eslint --fix src/app.ts 'src/my util.ts'"]
+    });
+  });
+
+  it("leaves failures to the agent when any error needs a manual fix", () => {
+    const config = getDefaultConfig();
+
+    expect(planLintAutofix(lintContext([violation("src/a.ts", true), violation("src/b.ts", false)]), config)).toMatchObject({
+      allowed: false,
+      reason: "1 of 2 ESLint errors need a manual fix"
+    });
+    expect(planLintAutofix(lintContext([violation("../outside.ts", true)]), config)).toMatchObject({
+      allowed: false,
+      reason: "ESLint reported files outside the checkout"
+    });
+  });
+
+  it("runs the configured fixers without putting them on the verification allowlist", () => {
+    const config = getDefaultConfig();
+    config.autofix.commands.push("npx prettier --write {files}");
+
+    expect(config.guardrails.allowed_commands.some(command => command.includes("--fix"))).toBe(false);
+    expect(planLintAutofix(lintContext([violation("src/a.ts", true)]), config).commands).toEqual([
+      "npx eslint --fix src/a.ts",
+      "npx prettier --write src/a.ts"
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import type { FailureContext } from "../collector/types.js";
+import type { GreenlitConfig } from "../config/greenlit.config.js";
+
+export interface AutofixPlan {
+  allowed: boolean;
+  reason?: string;
+  files: string[];
+  commands: string[];
+}
+
+/**
+ * Decide whether a lint failure can be fixed without the agent: every
+ * ESLint error must be auto-fixable, in files inside the checkout. The
+ * fixer commands are taken from `autofix.commands` alone.
+ */
+export function planLintAutofix(context: FailureContext, config: GreenlitConfig): AutofixPlan {
+  const blocked = (reason: string): AutofixPlan => ({ allowed: false, reason, files: [], commands: [] });
+
+  if (!config.autofix.enabled || !config.autofix.commands.length) {
+    return blocked("Lint autofix disabled");
+  }
+  if (context.failureType !== "lint" || !context.lint?.errors) {
+    return blocked("No ESLint errors found in the log");
+  }
+  if (context.lint.fixableErrors < context.lint.errors) {
+    return blocked(
+      `${context.lint.errors - context.lint.fixableErrors} of ${context.lint.errors} ESLint errors need a manual fix`
+    );
+  }
+
+  const files = [
+    ...new Set(context.lint.violations.filter(v => v.severity === "error").map(v => v.file))
+  ];
+  if (files.some(file => file.startsWith("/") || file.split("/").includes(".."))) {
+    return blocked("ESLint reported files outside the checkout");
+  }
+  const commands = config.autofix.commands.map(command =>
+    command.replace("{files}", files.map(quoteShellArg).join(" "))
+  );
+  return { allowed: true, files, commands };
+}
+
+function quoteShellArg(value: string): string {
+  return /^[\w./@-]+$/.test(value) ? value : `'${value.replace(/'/g, "'\\''")}'`;
+}
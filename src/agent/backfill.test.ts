@@ -0,0 +1,78 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import { backfillSignatureLedger } from "./backfill.js";
+import { loadSignatureLedger, shouldAttemptSignature } from "./signatures.js";
+import { getDefaultConfig } from "../config/greenlit.config.js";
+import type { CIProvider } from "../providers/index.js";
+import type { WorkflowRunContext } from "../collector/types.js";
+
+function fakeProvider(errors: Record<number, string>): CIProvider {
+  return {
+    name: "github",
+    owner: "acme",
+    repo: "api",
+    async collectFailureContext(runId): Promise<WorkflowRunContext> {
+      return {
+        runId,
+        repo: { owner: "acme", repo: "api" },
+        headSha: "abc123",
+        headBranch: "main",
+        workflowName: "CI",
+        failedJobs: errors[runId]
+          ? [
+              {
+                jobId: runId,
+                jobName: "test",
+                failedSteps: [
+                  { stepName: "Run tests", conclusion: "failure", startedAt: "", completedAt: "" }
+                ],
+                logs: `${errors[runId]}\n##[error]Process completed with exit code 1.`
+              }
+            ]
+          : []
+      };
+    },
+    postComment: async () => undefined,
+    createPullRequest: async () => {
+      throw new Error("not used");
+    }
+  };
+}
+
+describe("backfillSignatureLedger", () => {
+  it("counts occurrences per signature without blocking future attempts", async () => {
+    const config = getDefaultConfig();
+    config.signature_ledger.path = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "greenlit-backfill-")), "ledger.json");
+    const provider = fakeProvider({
+      1: "Error: Cannot find module 'left-pad'",
+      2: "Error: Cannot find module 'left-pad'",
+      3: ""
+    });
+    const runs = [
+      { id: 1, createdAt: "2026-10-01T10:00:00Z" },
+      { id: 2, createdAt: "2026-10-05T10:00:00Z" },
+      { id: 3, createdAt: "2026-10-06T10:00:00Z" }
+    ];
+
+    const summary = await backfillSignatureLedger(provider, runs, config);
+    // Re-running must not double count
+    const again = await backfillSignatureLedger(provider, runs, config);
+
+    expect(summary).toEqual({ runs: 3, recorded: 2, newSignatures: 1, skipped: 1 });
+    expect(again.recorded).toBe(0);
+
+    const ledger = loadSignatureLedger(config.signature_ledger.path);
+    const [record] = Object.values(ledger.records);
+    expect(record).toMatchObject({
+      attempts: 0,
+      occurrences: 2,
+      lastOutcome: "observed",
+      firstSeen: "2026-10-01T10:00:00Z",
+      lastSeen: "2026-10-05T10:00:00Z",
+      runIds: [1, 2]
+    });
+    expect(shouldAttemptSignature(record.signature, ledger, { ...config, signature_ledger: { ...config.signature_ledger, ttl_days: 3650 } }).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { buildJobFailureContexts } from "../collector/context-builder.js";
+import { routeFailure } from "./routing.js";
+import { resolveOwnerAssignment } from "./owner-routing.js";
+import {
+  computeSignature,
+  loadSignatureLedger,
+  migrateSignatureRecord,
+  recordSignatureOccurrence,
+  saveSignatureLedger
+} from "./signatures.js";
+import type { GreenlitConfig } from "../config/greenlit.config.js";
+import type { CIProvider } from "../providers/index.js";
+
+export interface BackfillRun {
+  id: number;
+  createdAt: string;
+}
+
+export interface BackfillSummary {
+  runs: number;
+  /** Failed jobs counted, one occurrence each */
+  recorded: number;
+  newSignatures: number;
+  skipped: number;
+}
+
+/**
+ * Seed the signature ledger from past failed runs using only the
+ * deterministic pipeline (collection, classification, signature, owner
+ * routing). No LLM calls are made and nothing is posted. Runs already in
+ * the ledger are not counted twice, so backfill can be re-run safely.
+ */
+export async function backfillSignatureLedger(
+  provider: CIProvider,
+  runs: BackfillRun[],
+  config: GreenlitConfig,
+  onRun?: (run: BackfillRun, signatures: string[]) => void
+): Promise<BackfillSummary> {
+  const summary: BackfillSummary = { runs: runs.length, recorded: 0, newSignatures: 0, skipped: 0 };
+
+  for (const run of runs) {
+    const signatures: string[] = [];
+    try {
+      const runContext = await provider.collectFailureContext(run.id, { testReports: config.test_reports });
+      for (const context of await buildJobFailureContexts(runContext, config.classification)) {
+        context.routingDecision = routeFailure(context, config);
+        const signature = computeSignature(context);
+        const owner = resolveOwnerAssignment(context, config).owner;
+        signatures.push(signature);
+
+        // Re-read per job so a live triage writing the ledger meanwhile isn't lost
+        const ledger = loadSignatureLedger(config.signature_ledger.path);
+        const migrated = migrateSignatureRecord(ledger, context, signature);
+        const isNew = !ledger.records[signature];
+        const recorded = recordSignatureOccurrence(signature, ledger, run.createdAt, { owner, runId: run.id });
+        if (recorded || migrated) {
+          saveSignatureLedger(config.signature_ledger.path, ledger);
+        }
+        if (recorded) {
+          summary.recorded += 1;
+          if (isNew) summary.newSignatures += 1;
+        }
+      }
+      if (!signatures.length) summary.skipped += 1;
+    } catch (error) {
+      console.warn(`Skipping run ${run.id}:`, error);
+      summary.skipped += 1;
+    }
+    onRun?.(run, signatures);
+  }
+
+  return summary;
+}
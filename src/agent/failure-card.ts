@@ -3,8 +3,10 @@ import type {
   FailureContext,
   MemorySummary,
   OwnerAssignment,
+  RunRollup,
   TriageResult
 } from "../collector/types.js";
+import { describeResource } from "../collector/resources.js";
 
 export function buildFailureCard(
   context: FailureContext,
@@ -24,17 +26,55 @@ export function buildFailureCard(
     job,
     step,
     failedCommand: context.failedCommand || "unknown",
+    stepCommand: context.stepCommand,
     errorSignature: context.errorSignature,
+    logsUnavailable: context.logsUnavailable,
     evidence: context.evidence,
     failureType: context.failureType,
     failureClass: context.failureClass,
+    classScores: context.classification?.classes.slice(0, 3),
     routingDecision: result.routingDecision,
+    changeImpact: context.changeImpact,
+    matrix: context.matrix,
+    sameFailureJobs: context.sameFailureJobs,
+    flakeEvidence: context.flakeEvidence,
+    resource: context.failureClass === "resource_exhaustion" ? context.resource : undefined,
+    typeErrors: context.typecheck
+      ? {
+          total: context.typecheck.total,
+          files: context.typecheck.files.length,
+          codes: context.typecheck.codes,
+          first: context.typecheck.files.flatMap(f => f.diagnostics).slice(0, 5)
+        }
+      : undefined,
+    redactions: context.redactions,
     owner: ownerAssignment,
     memory,
     action
   };
 }
 
+/**
+ * Summarize every failed job of a run; the first job is the primary failure
+ */
+export function buildRunRollup(
+  jobs: Array<{ context: FailureContext; result: TriageResult; signature: string }>
+): RunRollup {
+  const summaries = jobs.map(({ context, result, signature }, index) => ({
+    job: context.evidence?.job || "unknown",
+    step: context.evidence?.step,
+    failureType: context.failureType,
+    failureClass: context.failureClass,
+    routingDecision: result.routingDecision,
+    errorSignature: truncateLine(context.errorSignature, 120),
+    signature,
+    owner: result.ownerAssignment?.owner,
+    primary: index === 0,
+    sameFailureJobs: context.sameFailureJobs
+  }));
+  return { primaryJob: summaries[0]?.job || "unknown", jobs: summaries };
+}
+
 function buildSummary(context: FailureContext, result: TriageResult): string {
   const candidate = result.rootCause || context.errorSignature || "CI failure detected";
   return truncateLine(candidate, 180);
@@ -43,7 +83,7 @@ function buildSummary(context: FailureContext, result: TriageResult): string {
 function buildRecommendedAction(context: FailureContext, result: TriageResult): string {
   switch (result.routingDecision) {
     case "report_only":
-      return "Report-only. Review logs and apply a manual fix.";
+      return reportOnlyAction(context);
     case "flake_workflow":
       return "Suspected flake. Rerun the job or quarantine the test.";
     case "fix_attempt":
@@ -57,6 +97,19 @@ function buildRecommendedAction(context: FailureContext, result: TriageResult):
   }
 }
 
+function reportOnlyAction(context: FailureContext): string {
+  switch (context.failureClass) {
+    case "resource_exhaustion":
+      return `Report-only. The runner ran out of ${context.resource ? describeResource(context.resource) : "resources"}; reduce usage or move the job to a larger runner.`;
+    case "runner_lost":
+      return "Report-only. Rerun the job; check the runner's health if it keeps happening.";
+    case "timeout":
+      return "Report-only. Find the step that hung, or raise timeout-minutes if the job needs longer.";
+    default:
+      return "Report-only. Review logs and apply a manual fix.";
+  }
+}
+
 function truncateLine(text: string, maxLength: number): string {
   const line = text.split("\n")[0].trim();
   if (line.length <= maxLength) return line;
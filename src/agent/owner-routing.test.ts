@@ -55,6 +55,25 @@ describe("resolveOwnerAssignment", () => {
     expect(assignment.owner).toContain("@team-a");
   });
 
+  it("skips CODEOWNERS without a local checkout", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "greenlit-codeowners-"));
+    const codeownersPath = path.join(tempDir, "CODEOWNERS");
+    fs.writeFileSync(codeownersPath, "src/* @team-a\n");
+
+    const config = getDefaultConfig();
+    config.owner_routing = {
+      ...config.owner_routing,
+      codeowners_paths: [codeownersPath],
+      blame_depth: 1,
+      team_map: { "src/": "team-beta" },
+      fallback_owner: "unassigned"
+    };
+
+    const assignment = resolveOwnerAssignment(buildContext(), config, { localCheckout: false });
+
+    expect(assignment.source).toBe("team_map");
+  });
+
   it("falls back to team map when CODEOWNERS is missing", () => {
     const config = getDefaultConfig();
     config.owner_routing = {
@@ -72,4 +91,33 @@ describe("resolveOwnerAssignment", () => {
     expect(assignment.source).toBe("team_map");
     expect(assignment.owner).toBe("team-beta");
   });
+
+  it("prefers the change author when the change touched the failing code", () => {
+    const config = getDefaultConfig();
+    config.owner_routing = { ...config.owner_routing, codeowners_paths: ["/nonexistent/CODEOWNERS"], blame_depth: 0 };
+    const changes = { base: { sha: "base111", source: "pull_request" as const, author: "octocat" }, via: "api" as const, files: [] };
+
+    const introduced = resolveOwnerAssignment(
+      buildContext({
+        changes,
+        changeImpact: {
+          label: "introduced",
+          summary: "Introduced by this PR",
+          reason: "src/foo.ts:10 is on a line this PR changed",
+          location: { file: "src/foo.ts", line: 10 }
+        }
+      }),
+      config
+    );
+    const outside = resolveOwnerAssignment(
+      buildContext({
+        changes,
+        changeImpact: { label: "outside_change", summary: "Outside this PR", reason: "elsewhere" }
+      }),
+      config
+    );
+
+    expect(introduced).toMatchObject({ owner: "@octocat", source: "change_author", confidence: "high", line: "10" });
+    expect(outside.source).not.toBe("change_author");
+  });
 });
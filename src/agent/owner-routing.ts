@@ -3,6 +3,7 @@ import path from "path";
 import { execSync } from "child_process";
 import type { FailureContext, OwnerAssignment } from "../collector/types.js";
 import type { GreenlitConfig } from "../config/greenlit.config.js";
+import { globToRegex } from "../utils/glob.js";
 
 interface CodeownerRule {
   pattern: string;
@@ -12,12 +13,32 @@ interface CodeownerRule {
   lineNumber: number;
 }
 
+/**
+ * Pick who owns a failure. Without a local checkout of the repo
+ * (`localCheckout: false`), CODEOWNERS, blame and commit history are skipped.
+ */
 export function resolveOwnerAssignment(
   context: FailureContext,
-  config: GreenlitConfig
+  config: GreenlitConfig,
+  options: { localCheckout?: boolean } = {}
 ): OwnerAssignment {
+  const localCheckout = options.localCheckout !== false;
+  // Whoever made the change owns what it broke
+  const impact = context.changeImpact;
+  const author = context.changes?.base?.author;
+  if (author && impact && impact.label !== "outside_change") {
+    return {
+      owner: `@${author}`,
+      source: "change_author",
+      reason: `${impact.summary}: ${impact.reason}`,
+      confidence: impact.label === "introduced" ? "high" : "medium",
+      file: impact.location?.file,
+      line: impact.location?.line !== undefined ? String(impact.location.line) : undefined
+    };
+  }
+
   const candidateFiles = buildCandidateFiles(context);
-  const codeowners = loadCodeowners(config.owner_routing?.codeowners_paths || []);
+  const codeowners = localCheckout ? loadCodeowners(config.owner_routing?.codeowners_paths || []) : [];
   const blameDepth = config.owner_routing?.blame_depth ?? 1;
 
   const codeownersMatch = findCodeownersMatch(candidateFiles, codeowners);
@@ -32,7 +53,7 @@ export function resolveOwnerAssignment(
     };
   }
 
-  const blame = resolveOwnerFromBlame(context, blameDepth);
+  const blame = localCheckout ? resolveOwnerFromBlame(context, blameDepth) : null;
   if (blame) {
     return {
       owner: blame.owner,
@@ -55,7 +76,7 @@ export function resolveOwnerAssignment(
     };
   }
 
-  const lastCommit = resolveOwnerFromLastCommit(candidateFiles);
+  const lastCommit = localCheckout ? resolveOwnerFromLastCommit(candidateFiles) : null;
   if (lastCommit) {
     return {
       owner: lastCommit.owner,
@@ -160,38 +181,6 @@ function codeownersPatternToRegExp(pattern: string): RegExp {
   return new RegExp(`${prefix}${regexBody}$`);
 }
 
-function globToRegex(glob: string): string {
-  let regex = "";
-  for (let i = 0; i < glob.length; i += 1) {
-    const char = glob[i];
-    const next = glob[i + 1];
-
-    if (char === "*" && next === "*") {
-      regex += ".*";
-      i += 1;
-      continue;
-    }
-
-    if (char === "*") {
-      regex += "[^/]*";
-      continue;
-    }
-
-    if (char === "?") {
-      regex += ".";
-      continue;
-    }
-
-    if (".+^${}()|[]\\".includes(char)) {
-      regex += `\\${char}`;
-    } else {
-      regex += char;
-    }
-  }
-
-  return regex;
-}
-
 function resolveOwnerFromBlame(
   context: FailureContext,
   depth: number
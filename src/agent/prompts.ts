@@ -1,5 +1,7 @@
-import type { FailureContext, VerificationResult } from "../collector/types.js";
+import type { FailureContext, StepCommand, VerificationResult } from "../collector/types.js";
 import type { Guardrails } from "../config/greenlit.config.js";
+import { compactLogs } from "../collector/log-compactor.js";
+import { describeResource } from "../collector/resources.js";
 
 export interface Diagnosis {
   rootCause: string;
@@ -66,7 +68,7 @@ Analyze this CI failure and diagnose the root cause.
 - **Failure Type**: ${context.failureType}
 - **Failure Class**: ${context.failureClass}
 - **Failed Command**: ${context.failedCommand}
-
+${context.stepCommand ? `- **Workflow Step**: ${formatStepLocation(context.stepCommand)}\n` : ""}${context.logsUnavailable ? `- **Logs Unavailable**: ${context.logsUnavailable}\n` : ""}${context.matrix ? `- **Matrix**: ${context.matrix.description}\n` : ""}${context.sameFailureJobs?.length ? `- **Same Failure In**: ${context.sameFailureJobs.join(", ")}\n` : ""}
 ## Error Signature
 \`\`\`
 ${context.errorSignature}
@@ -75,8 +77,14 @@ ${context.errorSignature}
 ## Extracted Errors
 ${context.extractedErrors.slice(0, 10).map(e => `- ${e}`).join("\n")}
 
-## Files Changed in This PR
-${context.changedFiles.map(f => `- ${f}`).join("\n") || "- (none detected)"}
+## Check Annotations
+${formatDiagnostics(context)}
+
+## Failing Tests
+${formatTestFailures(context)}
+
+## Files Changed ${formatChangeBase(context)}
+${formatChangedFiles(context)}${formatChangeImpact(context)}
 
 ## Files Mentioned in Error Logs
 ${context.relevantFiles.map(f => `- ${f}`).join("\n") || "- (none detected)"}
@@ -90,10 +98,11 @@ ${context.evidence?.step ? `- **Step**: ${context.evidence.step}` : "- **Step**:
 ## Recent Commits
 ${context.recentCommits.join("\n") || "(none)"}
 
-## Raw Logs (truncated)
-\`\`\`
-${context.rawLogs.slice(-6000)}
+${context.typecheck ? `## Type Errors (${context.typecheck.total}, by file)
+${formatTypeErrors(context)}` : `## Raw Logs (compacted)
 \`\`\`
+${compactLogs(context.rawLogs, 6000)}
+\`\`\``}
 
 ---
 
@@ -172,7 +181,7 @@ The previous fix did not pass verification (attempt ${attempt}).
 
 ## Verification Output
 \`\`\`
-${failureOutput.slice(-4000)}
+${compactLogs(failureOutput, 4000)}
 \`\`\`
 
 ## Instructions
@@ -258,13 +267,13 @@ This CI failure cannot be automatically fixed. Generate a diagnostic report.
 - **Type**: ${context.failureType}
 - **Class**: ${context.failureClass}
 - **Error**: ${context.errorSignature}
-
+${context.matrix ? `- **Matrix**: ${context.matrix.description}\n` : ""}${context.sameFailureJobs?.length ? `- **Same Failure In**: ${context.sameFailureJobs.join(", ")}\n` : ""}${context.resource ? `- **Exhausted Resource**: ${describeResource(context.resource)} (${context.resource.evidence})\n` : ""}
 ## Why This Can't Be Auto-Fixed
 ${getReportOnlyReason(context.failureClass)}
 
-## Raw Logs
+## Raw Logs (compacted)
 \`\`\`
-${context.rawLogs.slice(-4000)}
+${compactLogs(context.rawLogs, 4000)}
 \`\`\`
 
 ---
@@ -278,6 +287,112 @@ Format as markdown.
 `
 };
 
+function formatChangeBase(context: FailureContext): string {
+  const base = context.changes?.base;
+  if (!base) return "(base unknown)";
+  const sha = base.sha.slice(0, 7);
+  switch (base.source) {
+    case "pull_request":
+      return `in This PR${base.pullNumber ? ` (#${base.pullNumber})` : ""}, since base ${sha}`;
+    case "last_green":
+      return `Since the Last Green Run (${sha})`;
+    default:
+      return `in the Last Commit (parent ${sha})`;
+  }
+}
+
+function formatChangedFiles(context: FailureContext): string {
+  const files = context.changes?.files ?? context.changedFiles.map(path => ({ path, status: "modified", ranges: undefined }));
+  if (!files.length) return "- (none detected)";
+
+  const lines = files.slice(0, 30).map(file => {
+    const ranges = file.ranges?.map(r => (r.start === r.end ? `${r.start}` : `${r.start}-${r.end}`));
+    const detail = file.status === "modified"
+      ? ranges?.length ? ` (lines ${ranges.slice(0, 8).join(", ")}${ranges.length > 8 ? ", …" : ""})` : ""
+      : ` (${file.status})`;
+    return `- ${file.path}${detail}`;
+  });
+  const more = files.length - lines.length;
+  return more > 0 ? `${lines.join("\n")}\n- …and ${more} more` : lines.join("\n");
+}
+
+function formatChangeImpact(context: FailureContext): string {
+  const impact = context.changeImpact;
+  if (!impact) return "";
+  const caution = impact.label === "outside_change"
+    ? " The change may not be the cause: check that before editing code outside it, and don't rewrite unrelated code to make the failure go away."
+    : "";
+  return `\n\n**Change impact**: ${impact.summary}. ${impact.reason}.${caution}`;
+}
+
+function formatTestFailures(context: FailureContext): string {
+  const failures = context.testFailures || [];
+  if (!failures.length) return "- (none reported)";
+  const lines = failures.slice(0, 10).map(t => {
+    const name = t.suite ? `${t.suite} › ${t.name}` : t.name;
+    const location = t.file ? ` (${t.file}${t.line ? `:${t.line}` : ""})` : "";
+    const details = [
+      t.expected !== undefined ? `  - Expected: ${t.expected}` : "",
+      t.received !== undefined ? `  - Received: ${t.received}` : "",
+      t.diff && t.expected === undefined ? `  - Diff:\n${t.diff.split("\n").slice(0, 12).map(l => `    ${l}`).join("\n")}` : "",
+      t.frame ? `  - Frame: ${t.frame}` : ""
+    ].filter(Boolean);
+    return [`- ${name}${location}: ${t.message.split("\n")[0]}`, ...details].join("\n");
+  });
+  if (failures.length > 10) {
+    lines.push(`- …and ${failures.length - 10} more`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Every TypeScript error grouped by file, in place of the raw log
+ */
+function formatTypeErrors(context: FailureContext): string {
+  const MAX_DIAGNOSTICS = 200;
+  let shown = 0;
+  const sections: string[] = [];
+  for (const { file, diagnostics } of context.typecheck?.files ?? []) {
+    if (shown >= MAX_DIAGNOSTICS) break;
+    const listed = diagnostics.slice(0, MAX_DIAGNOSTICS - shown);
+    shown += listed.length;
+    sections.push(
+      [
+        `### ${file}`,
+        ...listed.map(d => {
+          const position = d.line !== undefined ? `${d.line}:${d.column ?? 1} ` : "";
+          return `- ${position}${d.code}: ${d.message.replace(/\n/g, "\n  ")}`;
+        })
+      ].join("\n")
+    );
+  }
+  const total = context.typecheck?.total ?? 0;
+  if (total > shown) {
+    sections.push(`- …and ${total - shown} more`);
+  }
+  return sections.join("\n\n");
+}
+
+function formatStepLocation(step: StepCommand): string {
+  const details = [
+    step.workingDirectory ? `working-directory: ${step.workingDirectory}` : "",
+    step.shell ? `shell: ${step.shell}` : ""
+  ].filter(Boolean);
+  return `${step.workflowPath} › ${step.jobId} › ${step.stepName}${details.length ? ` (${details.join(", ")})` : ""}`;
+}
+
+function formatDiagnostics(context: FailureContext): string {
+  const failures = (context.diagnostics || []).filter(d => d.level === "failure");
+  if (!failures.length) return "- (none)";
+  return failures
+    .slice(0, 10)
+    .map(d => {
+      const location = d.path ? `${d.path}${d.line ? `:${d.line}` : ""}` : "(no location)";
+      return `- ${location} — ${d.message.split("\n")[0]}`;
+    })
+    .join("\n");
+}
+
 /**
  * Get human-readable reason for report-only routing
  */
@@ -287,6 +402,10 @@ function getReportOnlyReason(failureClass: string): string {
     permissions: "This failure is related to access permissions. Manual intervention is required to grant appropriate access.",
     infra_outage: "This failure appears to be caused by an external service outage. No code changes will help - wait for the service to recover.",
     dependency_registry: "This failure is related to a package registry issue (npm, pypi, etc.). This is typically transient - retry the workflow.",
+    resource_exhaustion: "The runner ran out of a resource (memory, disk space, file descriptors or processes). Code changes rarely help - reduce the job's footprint (parallelism, caches, build artifacts) or move it to a larger runner.",
+    runner_lost: "The runner shut down or lost contact with GitHub in the middle of the job, so the job never finished. Rerun it; if it keeps happening, check the runner's health (preemption, host maintenance, self-hosted runner crashes).",
+    timeout: "The job or step exceeded its time limit and was cancelled. Look for a step that hung (a waiting prompt, a deadlock, a server that never started) or raise timeout-minutes if the job legitimately needs longer.",
+    environment: "This failure only occurs on one matrix cell (OS or runtime version) while the others pass. Check platform-specific behavior or the runner image before changing code.",
     flaky: "This test appears to be flaky (intermittent failure). Consider quarantining the test while investigating.",
     unknown: "Unable to determine the exact cause. Manual investigation recommended."
   };
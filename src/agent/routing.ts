@@ -17,7 +17,11 @@ export function routeFailure(context: FailureContext, config: GreenlitConfig): R
   }
 
   if (routing.fix_attempt.includes(failureType)) {
-    return "fix_attempt";
+    const confidence = context.classification?.classes[0]?.probability ?? 1;
+    const required = context.changeImpact?.label === "outside_change"
+      ? Math.max(routing.min_fix_confidence, routing.outside_change_min_confidence)
+      : routing.min_fix_confidence;
+    return confidence < required ? "report_only" : "fix_attempt";
   }
 
   return "escalate";
@@ -1,6 +1,14 @@
 import { describe, it, expect } from "vitest";
-import { getSignatureMemory, setSignatureThread } from "./signatures.js";
+import { createHash } from "crypto";
+import {
+  computeSignature,
+  getSignatureMemory,
+  matrixGroupSignature,
+  migrateSignatureRecord,
+  setSignatureThread
+} from "./signatures.js";
 import type { SignatureLedger } from "./signatures.js";
+import type { FailureContext } from "../collector/types.js";
 
 
 describe("signature ledger thread tracking", () => {
@@ -34,3 +42,88 @@ describe("signature ledger thread tracking", () => {
     expect(Object.keys(ledger.records).length).toBe(0);
   });
 });
+
+describe("matrixGroupSignature", () => {
+  const context = (job: string, errorSignature = "expected 3 to be 4"): FailureContext =>
+    ({
+      repo: "acme/api",
+      failureType: "test",
+      errorSignature,
+      failedCommand: "npm test",
+      evidence: { job, step: "Run tests" }
+    }) as FailureContext;
+
+  it("groups matrix cells failing the same way, keeping their own signatures apart", () => {
+    const linux = context("test (ubuntu-latest, 20)");
+    const mac = context("test (macos-latest, 18)");
+
+    expect(matrixGroupSignature(linux)).toBe(matrixGroupSignature(mac));
+    expect(computeSignature(linux)).not.toBe(computeSignature(mac));
+    expect(matrixGroupSignature(linux)).not.toBe(matrixGroupSignature(context("test (macos-latest, 18)", "timeout")));
+    expect(matrixGroupSignature(linux)).not.toBe(matrixGroupSignature(context("e2e (ubuntu-latest, 20)")));
+  });
+});
+
+describe("migrateSignatureRecord", () => {
+  const context = (overrides: Partial<FailureContext>): FailureContext =>
+    ({
+      repo: "acme/api",
+      failedCommand: "npm test",
+      evidence: { job: "test", step: "Run tests" },
+      ...overrides
+    }) as FailureContext;
+  // How the first release keyed records: six fields, no test location or error codes
+  const releasedKey = (failureType: string, normalizedError: string) =>
+    createHash("sha256")
+      .update(["acme/api", failureType, normalizedError, "npm test", "test", "Run tests"].join("|"))
+      .digest("hex");
+  const record = (signature: string) => ({
+    signature,
+    attempts: 2,
+    lastSeen: "2026-10-01T00:00:00.000Z",
+    lastOutcome: "failed" as const
+  });
+
+  it("moves records keyed by the first release's signature to the current one", () => {
+    const pytest = context({
+      failureType: "test",
+      errorSignature: "test_adds: assert 3 == 4",
+      testFailures: [
+        {
+          source: "pytest",
+          id: "tests/test_math.py::test_adds",
+          file: "tests/test_math.py",
+          name: "test_adds",
+          message: "assert 3 == 4"
+        }
+      ]
+    });
+    const tsc = context({
+      failureType: "typecheck",
+      errorSignature: "src/db.ts(4,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      typecheck: { total: 1, codes: [{ code: "TS2322", count: 1 }], files: [{ file: "src/db.ts", diagnostics: [] }] }
+    } as Partial<FailureContext>);
+
+    for (const [failure, oldKey] of [
+      [pytest, releasedKey("test", "test_adds: assert n == n")],
+      [tsc, releasedKey("typecheck", "src/db.ts(n,n): error tsn: type 'string' is not assignable to type 'number'.")]
+    ] as const) {
+      const ledger: SignatureLedger = { records: { [oldKey]: record(oldKey) } };
+      const signature = computeSignature(failure);
+
+      expect(signature).not.toBe(oldKey);
+      expect(migrateSignatureRecord(ledger, failure, signature)).toBe(true);
+      expect(ledger.records).toEqual({ [signature]: record(signature) });
+      expect(migrateSignatureRecord(ledger, failure, signature)).toBe(false);
+    }
+  });
+
+  it("leaves failures whose signature never changed alone", () => {
+    const build = context({ failureType: "build", errorSignature: "Module not found: 'left-pad'" });
+    const signature = computeSignature(build);
+    const ledger: SignatureLedger = { records: { [signature]: record(signature) } };
+
+    expect(signature).toBe(releasedKey("build", "module not found: 'left-pad'"));
+    expect(migrateSignatureRecord(ledger, build, signature)).toBe(false);
+  });
+});
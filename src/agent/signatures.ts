@@ -1,16 +1,24 @@
 import { createHash } from "crypto";
 import fs from "fs";
 import path from "path";
-import type { FailureContext, MemorySummary } from "../collector/types.js";
+import type { ClassificationSignal, FailureContext, MemorySummary, TypecheckSummary } from "../collector/types.js";
 import type { GreenlitConfig } from "../config/greenlit.config.js";
+import { parseMatrixJobName } from "../collector/matrix.js";
 
-export type SignatureOutcome = "fix" | "report-only" | "quarantine" | "failed";
+// `observed` marks signatures only seen by backfill, never triaged
+export type SignatureOutcome = "fix" | "report-only" | "quarantine" | "failed" | "observed";
+
+// Run ids kept per signature so a run is only counted once
+const MAX_TRACKED_RUNS = 100;
 
 export interface SignatureRecord {
   signature: string;
   attempts: number;
   lastSeen: string;
   lastOutcome: SignatureOutcome;
+  occurrences?: number;
+  firstSeen?: string;
+  runIds?: number[];
   lastOwner?: string;
   lastResolution?: string;
   threadUrl?: string;
@@ -20,8 +28,13 @@ export interface SignatureLedger {
   records: Record<string, SignatureRecord>;
 }
 
+// Changing the payload re-keys every known failure: keep the previous form
+// in legacySignature so ledger records can be migrated
 export function computeSignature(context: FailureContext): string {
-  const normalizedError = normalizeErrorSignature(context.errorSignature);
+  // Type errors are keyed on their codes and files; messages name types that churn
+  const normalizedError = context.failureType === "typecheck" && context.typecheck
+    ? typecheckKey(context.typecheck)
+    : normalizeErrorSignature(context.errorSignature);
   const payload = [
     context.repo,
     context.failureType,
@@ -29,11 +42,68 @@ export function computeSignature(context: FailureContext): string {
     context.failedCommand,
     context.evidence?.job || "",
     context.evidence?.step || ""
+  ];
+  // Same test name and assertion in another file or package is another failure
+  const firstTest = context.testFailures?.[0];
+  const testLocation = firstTest?.id ?? firstTest?.file;
+  if (testLocation) {
+    payload.push(testLocation);
+  }
+
+  return createHash("sha256").update(payload.join("|")).digest("hex");
+}
+
+/**
+ * The signature as first released, before test locations and TypeScript
+ * error codes went into it: the normalized message and the run's job and
+ * step only. Ledgers written back then key their records this way; for
+ * other failures it equals the current signature.
+ */
+export function legacySignature(context: FailureContext): string {
+  const payload = [
+    context.repo,
+    context.failureType,
+    normalizeErrorSignature(context.errorSignature),
+    context.failedCommand,
+    context.evidence?.job || "",
+    context.evidence?.step || ""
   ].join("|");
 
   return createHash("sha256").update(payload).digest("hex");
 }
 
+/**
+ * Move a record kept under the legacy signature to the current one, so a
+ * failure seen before the format changed keeps its history. Returns
+ * whether the ledger changed.
+ */
+export function migrateSignatureRecord(ledger: SignatureLedger, context: FailureContext, signature: string): boolean {
+  if (ledger.records[signature]) return false;
+  const legacy = legacySignature(context);
+  const record = ledger.records[legacy];
+  if (legacy === signature || !record) return false;
+
+  delete ledger.records[legacy];
+  ledger.records[signature] = { ...record, signature };
+  return true;
+}
+
+/**
+ * Signature with the matrix values dropped from the job name, shared by
+ * matrix cells that fail the same way
+ */
+export function matrixGroupSignature(context: FailureContext): string {
+  const job = context.evidence?.job;
+  const baseName = job ? parseMatrixJobName(job)?.baseName : undefined;
+  return computeSignature(baseName ? { ...context, evidence: { ...context.evidence!, job: baseName } } : context);
+}
+
+function typecheckKey(typecheck: TypecheckSummary): string {
+  const codes = typecheck.codes.map(c => c.code).sort();
+  const files = typecheck.files.map(f => f.file).sort();
+  return `tsc ${codes.join(",")} in ${files.join(",")}`;
+}
+
 function normalizeErrorSignature(signature: string): string {
   return signature
     .replace(/\d+/g, "N") // Replace numbers
@@ -108,7 +178,7 @@ export function updateSignatureLedger(
   signature: string,
   ledger: SignatureLedger,
   outcome: SignatureOutcome,
-  details?: { owner?: string; resolution?: string; threadUrl?: string }
+  details?: { owner?: string; resolution?: string; threadUrl?: string; runId?: number }
 ): void {
   const now = new Date().toISOString();
   const record = ledger.records[signature] || {
@@ -118,6 +188,7 @@ export function updateSignatureLedger(
     lastOutcome: outcome
   };
 
+  countOccurrence(record, now, details?.runId);
   record.attempts += 1;
   record.lastSeen = now;
   record.lastOutcome = outcome;
@@ -134,6 +205,50 @@ export function updateSignatureLedger(
   ledger.records[signature] = record;
 }
 
+/**
+ * Count a past occurrence of a signature without triaging it. Used by
+ * backfill: attempts and the last outcome are left alone, so recorded
+ * history never blocks a future fix attempt.
+ */
+export function recordSignatureOccurrence(
+  signature: string,
+  ledger: SignatureLedger,
+  seenAt: string,
+  details?: { owner?: string; runId?: number }
+): boolean {
+  const record = ledger.records[signature] || {
+    signature,
+    attempts: 0,
+    lastSeen: seenAt,
+    lastOutcome: "observed" as const
+  };
+
+  if (!countOccurrence(record, seenAt, details?.runId)) {
+    return false;
+  }
+  if (Date.parse(seenAt) > Date.parse(record.lastSeen)) {
+    record.lastSeen = seenAt;
+  }
+  if (details?.owner && !record.lastOwner) {
+    record.lastOwner = details.owner;
+  }
+
+  ledger.records[signature] = record;
+  return true;
+}
+
+function countOccurrence(record: SignatureRecord, seenAt: string, runId?: number): boolean {
+  if (runId !== undefined) {
+    if (record.runIds?.includes(runId)) return false;
+    record.runIds = [...(record.runIds ?? []), runId].slice(-MAX_TRACKED_RUNS);
+  }
+  record.occurrences = (record.occurrences ?? record.attempts) + 1;
+  if (!record.firstSeen || Date.parse(seenAt) < Date.parse(record.firstSeen)) {
+    record.firstSeen = seenAt;
+  }
+  return true;
+}
+
 export function getSignatureMemory(record?: SignatureRecord): MemorySummary {
   if (!record) {
     return { seenBefore: false };
@@ -141,6 +256,8 @@ export function getSignatureMemory(record?: SignatureRecord): MemorySummary {
 
   return {
     seenBefore: true,
+    occurrences: record.occurrences,
+    firstSeen: record.firstSeen,
     lastSeen: record.lastSeen,
     lastOutcome: record.lastOutcome,
     lastOwner: record.lastOwner,
@@ -149,6 +266,21 @@ export function getSignatureMemory(record?: SignatureRecord): MemorySummary {
   };
 }
 
+/**
+ * Classification signals from how a signature was last resolved: a
+ * quarantine points to a flake, a fix to a real code failure.
+ */
+export function signatureOutcomeSignals(record?: SignatureRecord): ClassificationSignal[] {
+  switch (record?.lastOutcome) {
+    case "quarantine":
+      return [{ source: "ledger", kind: "class", target: "flaky", weight: 1.5, reason: "previously quarantined as flaky" }];
+    case "fix":
+      return [{ source: "ledger", kind: "class", target: "deterministic", weight: 1, reason: "previously fixed in code" }];
+    default:
+      return [];
+  }
+}
+
 export function setSignatureThread(
   signature: string,
   ledger: SignatureLedger,
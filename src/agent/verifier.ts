@@ -1,16 +1,32 @@
 import { execSync, ExecSyncOptions } from "child_process";
-import type { VerificationResult } from "../collector/types.js";
+import path from "path";
+import { hasExpressions } from "../collector/workflow-steps.js";
+import type { StepCommand, VerificationResult } from "../collector/types.js";
+
+// `|`, `||`, `<`, `>`, backticks, `$(` and a lone `&`; `&&` separates commands
+const SHELL_METACHARACTERS = /[|<>`]|\$\(|(?<!&)&(?!&)/;
+
+// Variables that decide which binary runs or inject code into the shell or
+// an interpreter, so a step's `env:` could run anything under an allowed command
+const EXECUTION_ENV_PATTERN =
+  /^(?:PATH|BASH_ENV|ENV|SHELLOPTS|BASHOPTS|IFS|PS4|CDPATH|PROMPT_COMMAND|BASH_FUNC_.*|LD_.*|DYLD_.*|NODE_OPTIONS|NODE_PATH|PYTHONPATH|PYTHONSTARTUP|PYTHONHOME|PERL5OPT|PERL5LIB|PERLLIB|RUBYOPT|RUBYLIB|JAVA_TOOL_OPTIONS|_JAVA_OPTIONS|JDK_JAVA_OPTIONS|GIT_.*|NPM_CONFIG_.*)$/i;
 
 /**
- * Verify a fix by running the failing command
+ * Verify a fix by running the failing command. When the failed step's
+ * workflow definition is known and every command in it is exactly an
+ * allowed command, the step's script runs as CI ran it (shell,
+ * working-directory and env).
  */
 export async function verifyFix(
   originalCommand: string,
   allowedCommands: string[],
-  timeoutMs: number = 120000
+  timeoutMs: number = 120000,
+  step?: StepCommand
 ): Promise<VerificationResult> {
+  const stepRun = step ? prepareStepRun(step, allowedCommands) : null;
+
   // Validate command is in allowlist
-  const command = findAllowedCommand(originalCommand, allowedCommands);
+  const command = stepRun?.command ?? findAllowedCommand(originalCommand, allowedCommands);
 
   if (!command) {
     return {
@@ -21,21 +37,23 @@ export async function verifyFix(
     };
   }
 
-  console.log(`  Running verification: ${command}`);
+  const displayCommand = stepRun && step ? step.run : command;
+  console.log(`  Running verification: ${displayCommand}`);
 
   try {
     const options: ExecSyncOptions = {
       encoding: "utf-8",
       timeout: timeoutMs,
       maxBuffer: 10 * 1024 * 1024, // 10MB
-      stdio: ["pipe", "pipe", "pipe"]
+      stdio: ["pipe", "pipe", "pipe"],
+      ...stepRun?.options
     };
 
     const output = execSync(command, options) as string;
 
     return {
       passed: true,
-      command,
+      command: displayCommand,
       output: output.slice(-5000), // Keep last 5k chars
       exitCode: 0
     };
@@ -47,13 +65,73 @@ export async function verifyFix(
 
     return {
       passed: false,
-      command,
+      command: displayCommand,
       output,
       exitCode: execError.status || 1
     };
   }
 }
 
+/**
+ * Prepare a workflow step's script to run locally the way the runner does.
+ * Returns null when it can't be reproduced: unevaluated expressions,
+ * unsupported shells, or any command outside the allowlist.
+ */
+function prepareStepRun(
+  step: StepCommand,
+  allowedCommands: string[]
+): { command: string; options: ExecSyncOptions } | null {
+  if (hasExpressions(step.run) || hasExpressions(step.workingDirectory || "")) return null;
+
+  // Runner defaults: `bash -e {0}`, or `bash … -eo pipefail {0}` when `shell: bash` is explicit
+  const shell = step.shell || "bash";
+  const prelude = !step.shell || shell === "sh" ? "set -e" : shell === "bash" ? "set -eo pipefail" : null;
+  if (!prelude) return null;
+
+  // Pipes, redirections, substitutions and background jobs could smuggle
+  // anything past the allowlist, so such scripts are never run as written
+  if (SHELL_METACHARACTERS.test(step.run)) return null;
+
+  const commands = splitScriptCommands(step.run);
+  const allowed = commands.every(cmd => allowedCommands.some(pattern => sameCommand(cmd, pattern)));
+  if (!commands.length || !allowed) return null;
+
+  // Secrets and other expressions only exist on the runner
+  const env = Object.fromEntries(
+    Object.entries(step.env).filter(
+      ([name, value]) => !hasExpressions(value) && !EXECUTION_ENV_PATTERN.test(name)
+    )
+  );
+
+  return {
+    command: `${prelude}\n${step.run}`,
+    options: {
+      shell,
+      cwd: step.workingDirectory ? path.resolve(step.workingDirectory) : undefined,
+      env: { ...process.env, ...env }
+    }
+  };
+}
+
+/**
+ * Commands are compared whole, token by token: `npm test` allows exactly
+ * `npm test`, not `npm test --anything`
+ */
+function sameCommand(command: string, pattern: string): boolean {
+  const tokens = (text: string) => text.trim().toLowerCase().split(/\s+/);
+  const a = tokens(command);
+  const b = tokens(pattern);
+  return a.length === b.length && a.every((token, index) => token === b[index]);
+}
+
+function splitScriptCommands(script: string): string[] {
+  return script
+    .replace(/\\\n/g, " ")
+    .split(/\n|&&|;/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith("#"));
+}
+
 /**
  * Find an allowed command that matches the original
  */
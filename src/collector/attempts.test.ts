@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { compareAttempts, summarizeAttempt } from "./attempts.js";
+import type { FailedJob } from "./types.js";
+
+const failedTest: FailedJob = { jobId: 2, jobName: "test", failedSteps: [], logs: "" };
+
+describe("compareAttempts", () => {
+  it("flags jobs that passed on an earlier attempt of the same commit", () => {
+    const attempts = [
+      summarizeAttempt(1, [
+        { name: "lint", conclusion: "success" },
+        { name: "test", conclusion: "success" }
+      ]),
+      summarizeAttempt(2, [
+        { name: "lint", conclusion: "success" },
+        {
+          name: "test",
+          conclusion: "failure",
+          steps: [{ name: "Run tests", conclusion: "failure" }]
+        }
+      ])
+    ];
+
+    const evidence = compareAttempts([failedTest], attempts, 2);
+
+    expect(attempts[1].failedSteps).toEqual(["test / Run tests"]);
+    expect(evidence?.flakyJobs).toEqual(["test"]);
+    expect(evidence?.description).toBe(
+      "test passed on attempt #1 and failed on attempt #2 of the same commit"
+    );
+  });
+
+  it("reports consistent failures without flagging a flake", () => {
+    const attempts = [
+      summarizeAttempt(1, [{ name: "test", conclusion: "failure" }]),
+      summarizeAttempt(2, [{ name: "test", conclusion: "failure" }])
+    ];
+
+    const evidence = compareAttempts([failedTest], attempts, 2);
+
+    expect(evidence?.flakyJobs).toEqual([]);
+    expect(evidence?.consistentJobs).toEqual(["test"]);
+  });
+
+  it("returns nothing for first attempts", () => {
+    const attempts = [summarizeAttempt(1, [{ name: "test", conclusion: "failure" }])];
+
+    expect(compareAttempts([failedTest], attempts, 1)).toBeUndefined();
+  });
+});
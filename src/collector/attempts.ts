@@ -0,0 +1,70 @@
+import type { AttemptSummary, FailedJob, FlakeEvidence } from "./types.js";
+
+interface AttemptJob {
+  name: string;
+  conclusion: string | null;
+  steps?: Array<{ name: string; conclusion: string | null }>;
+}
+
+/**
+ * Summarize one run attempt from its job list
+ */
+export function summarizeAttempt(
+  attempt: number,
+  jobs: AttemptJob[]
+): AttemptSummary {
+  const failedJobs = jobs.filter(j => j.conclusion === "failure");
+  return {
+    attempt,
+    failedJobs: failedJobs.map(j => j.name),
+    failedSteps: failedJobs.flatMap(j =>
+      (j.steps || []).filter(s => s.conclusion === "failure").map(s => `${j.name} / ${s.name}`)
+    ),
+    passedJobs: jobs.filter(j => j.conclusion === "success").map(j => j.name)
+  };
+}
+
+/**
+ * Compare the current failure with earlier attempts of the same run (same SHA).
+ * A job that passed on another attempt but fails now is flaky by evidence,
+ * not by keyword.
+ */
+export function compareAttempts(
+  failedJobs: FailedJob[],
+  attempts: AttemptSummary[],
+  currentAttempt: number
+): FlakeEvidence | undefined {
+  const previous = attempts.filter(a => a.attempt !== currentAttempt);
+  if (!previous.length) return undefined;
+
+  const flakyJobs = failedJobs
+    .map(j => j.jobName)
+    .filter(name => previous.some(a => a.passedJobs.includes(name)));
+  const consistentJobs = failedJobs
+    .map(j => j.jobName)
+    .filter(name => previous.every(a => a.failedJobs.includes(name)));
+
+  if (!flakyJobs.length) {
+    return {
+      currentAttempt,
+      attempts,
+      flakyJobs: [],
+      consistentJobs,
+      description: consistentJobs.length
+        ? `failed on all ${previous.length + 1} attempts of the same commit`
+        : `no earlier attempt of the same commit passed`
+    };
+  }
+
+  const passedOn = previous
+    .filter(a => flakyJobs.some(name => a.passedJobs.includes(name)))
+    .map(a => `#${a.attempt}`);
+
+  return {
+    currentAttempt,
+    attempts,
+    flakyJobs,
+    consistentJobs,
+    description: `${flakyJobs.join(", ")} passed on attempt ${passedOn.join(", ")} and failed on attempt #${currentAttempt} of the same commit`
+  };
+}
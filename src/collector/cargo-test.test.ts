@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { parseCargoTestOutput } from "./cargo-test.js";
+
+describe("parseCargoTestOutput", () => {
+  it("extracts panics in the current and legacy formats", () => {
+    const failures = parseCargoTestOutput(
+      [
+        "running 3 tests",
+        "test tests::adds ... FAILED",
+        "test tests::parses ... FAILED",
+        "test tests::subs ... ok",
+        "",
+        "failures:",
+        "",
+        "---- tests::adds stdout ----",
+        "thread 'tests::adds' panicked at src/lib.rs:12:9:",
+        "assertion `left == right` failed",
+        "  left: 3",
+        " right: 4",
+        "note: run with `RUST_BACKTRACE=1` environment variable to display a backtrace",
+        "",
+        "---- tests::parses stdout ----",
+        "thread 'tests::parses' panicked at 'called `Result::unwrap()` on an `Err` value: Empty', /home/runner/work/cli/cli/src/parse.rs:40:30",
+        "",
+        "failures:",
+        "    tests::adds",
+        "    tests::parses",
+        "",
+        "test result: FAILED. 1 passed; 2 failed; 0 ignored"
+      ].join("\n")
+    );
+
+    expect(failures).toEqual([
+      expect.objectContaining({
+        source: "cargo",
+        id: "tests::adds",
+        suite: "tests",
+        name: "adds",
+        file: "src/lib.rs",
+        line: 12,
+        message: "assertion `left == right` failed\nleft: 3\nright: 4"
+      }),
+      expect.objectContaining({
+        id: "tests::parses",
+        file: "src/parse.rs",
+        line: 40,
+        message: "called `Result::unwrap()` on an `Err` value: Empty"
+      })
+    ]);
+  });
+});
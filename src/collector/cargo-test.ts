@@ -0,0 +1,73 @@
+import type { TestFailure } from "./types.js";
+import { relativizeRunnerPath } from "../utils/paths.js";
+
+const RESULT_PATTERN = /^test (\S+) \.\.\. FAILED$/;
+const SECTION_PATTERN = /^---- (\S+) stdout ----$/;
+// Rust 1.73+: `panicked at src/lib.rs:12:9:` with the message on the next lines
+const PANIC_PATTERN = /^thread '([^']*)' panicked at (\S+?):(\d+):\d+:$/;
+// Older: `panicked at 'message', src/lib.rs:12:9`
+const LEGACY_PANIC_PATTERN = /^thread '([^']*)' panicked at '([\s\S]*)', (\S+?):(\d+):\d+$/;
+
+/**
+ * Parse failing tests out of `cargo test` output: the `---- name stdout ----`
+ * sections carry the panic message and location.
+ */
+export function parseCargoTestOutput(logs: string): TestFailure[] {
+  const lines = logs.split("\n").map(line => line.trimEnd());
+  const sections = new Map<string, string[]>();
+  const failed: string[] = [];
+  let current: string[] | undefined;
+
+  for (const line of lines) {
+    const result = line.match(RESULT_PATTERN);
+    const section = line.match(SECTION_PATTERN);
+    if (result) {
+      failed.push(result[1]);
+    } else if (section) {
+      current = [];
+      sections.set(section[1], current);
+    } else if (/^(?:failures:|test result:)/.test(line)) {
+      current = undefined;
+    } else {
+      current?.push(line);
+    }
+  }
+
+  return [...new Set([...failed, ...sections.keys()])].map(name => toFailure(name, sections.get(name) ?? []));
+}
+
+function toFailure(testPath: string, output: string[]): TestFailure {
+  const segments = testPath.split("::");
+  const text = output.join("\n");
+  const legacy = text.match(new RegExp(LEGACY_PANIC_PATTERN.source, "m"));
+  const panicIndex = output.findIndex(line => PANIC_PATTERN.test(line));
+  const panic = panicIndex >= 0 ? output[panicIndex].match(PANIC_PATTERN) : null;
+
+  let message: string | undefined;
+  let file: string | undefined;
+  let line: string | undefined;
+  if (panic) {
+    const messageLines: string[] = [];
+    for (const next of output.slice(panicIndex + 1)) {
+      if (!next.trim() || next.startsWith("note:") || next.startsWith("stack backtrace:")) break;
+      messageLines.push(next.trim());
+    }
+    message = messageLines.join("\n");
+    [file, line] = [panic[2], panic[3]];
+  } else if (legacy) {
+    message = legacy[2].split("\n").map(l => l.trim()).join("\n");
+    [file, line] = [legacy[3], legacy[4]];
+  }
+
+  return {
+    source: "cargo",
+    id: testPath,
+    suite: segments.length > 1 ? segments.slice(0, -1).join("::") : undefined,
+    name: segments[segments.length - 1],
+    file: file ? relativizeRunnerPath(file) : undefined,
+    line: line ? Number(line) : undefined,
+    message: message || output.find(l => l.trim())?.trim() || "(no message)",
+    frame: file ? `${relativizeRunnerPath(file)}:${line}` : undefined,
+    stack: output.length ? output.slice(0, 20).join("\n").trim() : undefined
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { assessChangeImpact } from "./change-impact.js";
+import type { ChangeSet } from "./types.js";
+
+const changes: ChangeSet = {
+  base: { sha: "base111", source: "pull_request", pullNumber: 7 },
+  via: "api",
+  files: [
+    { path: "src/math.ts", status: "modified", ranges: [{ start: 10, end: 14 }] },
+    { path: "src/parse.ts", status: "added", ranges: [{ start: 1, end: 40 }] },
+    { path: "src/legacy.ts", status: "removed", ranges: [] }
+  ]
+};
+
+describe("assessChangeImpact", () => {
+  it("labels failures on changed lines or in new files as introduced", () => {
+    const onChangedLine = assessChangeImpact({
+      changes,
+      evidence: { file: "./src/math.ts", line: "12" }
+    });
+    const inNewFile = assessChangeImpact({
+      changes,
+      testFailures: [{ source: "jest", name: "parses", file: "src/parse.ts", message: "boom" }]
+    });
+
+    expect(onChangedLine).toEqual({
+      label: "introduced",
+      summary: "Introduced by this PR",
+      reason: "src/math.ts:12 is on a line this PR changed",
+      location: { file: "src/math.ts", line: 12 }
+    });
+    expect(inNewFile?.label).toBe("introduced");
+  });
+
+  it("labels untouched lines of changed code, and tests of it, as pre-existing", () => {
+    const sameFile = assessChangeImpact({ changes, evidence: { file: "src/math.ts", line: "40" } });
+    const testOfChange = assessChangeImpact({
+      changes,
+      testFailures: [{ source: "jest", name: "adds", file: "test/math.test.ts", line: 5, message: "expected 3 to be 4" }]
+    });
+
+    expect(sameFile).toMatchObject({ label: "pre_existing", reason: "this PR changed src/math.ts, but not line 40" });
+    expect(testOfChange).toMatchObject({
+      label: "pre_existing",
+      summary: "Pre-existing code, newly failing",
+      reason: "test/math.test.ts:5 tests src/math.ts, which this PR changed"
+    });
+  });
+
+  it("labels failures away from the diff as outside the change", () => {
+    const outside = assessChangeImpact({
+      changes: { ...changes, base: { sha: "green44", source: "last_green" } },
+      diagnostics: [
+        { level: "warning", message: "deprecated", path: "src/math.ts", line: 12 },
+        { level: "failure", message: "boom", path: "src/server.ts", line: 3 },
+        { level: "failure", message: "gone", path: "src/legacy.ts", line: 1 }
+      ]
+    });
+
+    expect(outside).toMatchObject({
+      label: "outside_change",
+      summary: "Outside this change",
+      reason: "No failing location is in, or tests, any of the 2 files this change touched",
+      location: { file: "src/server.ts", line: 3 }
+    });
+  });
+
+  it("has no label without a change set or a failing location", () => {
+    expect(assessChangeImpact({ evidence: { file: "src/math.ts", line: "12" } })).toBeUndefined();
+    expect(assessChangeImpact({ changes, evidence: { job: "test" } })).toBeUndefined();
+  });
+});
@@ -0,0 +1,107 @@
+import path from "path";
+import type { ChangeImpact, ChangeSet, FailureContext } from "./types.js";
+
+interface FailingLocation {
+  file: string;
+  line?: number;
+}
+
+// `math.test.ts`, `math.spec.ts`, `test_math.py`, `math_test.go` all test `math`
+const TEST_NAME_PATTERN = /^(?:test_)?(.+?)(?:[._-](?:test|spec))?$/;
+
+/**
+ * Label a failure by where its failing locations sit relative to the
+ * change: inside the changed lines, in code the change touched or tests
+ * (pre-existing code that is newly failing), or nowhere near the diff.
+ */
+export function assessChangeImpact(
+  context: Pick<FailureContext, "changes" | "evidence" | "testFailures" | "typecheck" | "lint" | "diagnostics">
+): ChangeImpact | undefined {
+  const changes = context.changes;
+  const locations = failingLocations(context);
+  if (!changes || !locations.length) return undefined;
+
+  const scope = changes.base?.source === "pull_request" ? "this PR" : "this change";
+  const changed = new Map(changes.files.filter(f => f.status !== "removed").map(f => [f.path, f]));
+  const introduced = (reason: string, location: FailingLocation): ChangeImpact => ({
+    label: "introduced",
+    summary: `Introduced by ${scope}`,
+    reason,
+    location
+  });
+  let nearby: { location: FailingLocation; reason: string } | undefined;
+
+  for (const location of locations) {
+    const file = changed.get(location.file);
+    const { line } = location;
+    if (file?.status === "added") {
+      return introduced(`${location.file} is new in ${scope}`, location);
+    }
+    if (file && line !== undefined && file.ranges?.some(r => line >= r.start && line <= r.end)) {
+      return introduced(`${formatLocation(location)} is on a line ${scope} changed`, location);
+    }
+    if (nearby) continue;
+
+    if (file) {
+      const reason = line !== undefined && file.ranges
+        ? `${scope} changed ${location.file}, but not line ${line}`
+        : `${scope} changed ${location.file}`;
+      nearby = { location, reason };
+    } else {
+      const subject = findTestedFile(location.file, changes);
+      if (subject) nearby = { location, reason: `${formatLocation(location)} tests ${subject}, which ${scope} changed` };
+    }
+  }
+
+  if (nearby) {
+    return { label: "pre_existing", summary: "Pre-existing code, newly failing", ...nearby };
+  }
+  const count = changed.size;
+  return {
+    label: "outside_change",
+    summary: `Outside ${scope}`,
+    reason: `No failing location is in, or tests, any of the ${count} file${count === 1 ? "" : "s"} ${scope} touched`,
+    location: locations[0]
+  };
+}
+
+/**
+ * Every file:line the failure points at, most specific first
+ */
+function failingLocations(
+  context: Pick<FailureContext, "evidence" | "testFailures" | "typecheck" | "lint" | "diagnostics">
+): FailingLocation[] {
+  const toLine = (value?: string | number) => (value === undefined || value === "" ? undefined : Number(value));
+  const candidates: Array<{ file?: string; line?: number }> = [
+    { file: context.evidence?.file, line: toLine(context.evidence?.line) },
+    ...(context.testFailures ?? []).map(t => ({ file: t.file, line: t.line })),
+    ...(context.typecheck?.files ?? []).flatMap(f => f.diagnostics).map(d => ({ file: d.file, line: d.line })),
+    ...(context.lint?.violations ?? []).filter(v => v.severity === "error").map(v => ({ file: v.file, line: v.line })),
+    ...(context.diagnostics ?? []).filter(d => d.level === "failure").map(d => ({ file: d.path, line: d.line }))
+  ];
+
+  const seen = new Set<string>();
+  return candidates.flatMap(({ file, line }) => {
+    if (!file) return [];
+    const normalized = path.posix.normalize(file.replace(/\\/g, "/")).replace(/^\.\//, "");
+    const validLine = line !== undefined && Number.isFinite(line) ? line : undefined;
+    const key = `${normalized}:${validLine ?? ""}`;
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [{ file: normalized, line: validLine }];
+  });
+}
+
+/**
+ * The changed source file a test file covers, matched by name
+ */
+function findTestedFile(file: string, changes: ChangeSet): string | undefined {
+  const stem = (name: string) => path.posix.basename(name).replace(/\.[^.]+$/, "");
+  const tested = stem(file).match(TEST_NAME_PATTERN)?.[1];
+  if (!tested || tested === stem(file)) return undefined;
+  return changes.files.find(f => f.path !== file && f.status !== "removed" && stem(f.path) === tested)?.path;
+}
+
+function formatLocation(location: FailingLocation): string {
+  return location.line !== undefined ? `${location.file}:${location.line}` : location.file;
+}
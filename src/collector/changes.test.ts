@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { collectChanges, parseUnifiedDiff, patchRanges, resolveChangeBase, type RunRef } from "./changes.js";
+
+const run = (overrides: Partial<RunRef> = {}): RunRef => ({
+  head_sha: "head000",
+  head_branch: "main",
+  event: "push",
+  workflow_id: 7,
+  created_at: "2026-10-01T12:00:00Z",
+  pull_requests: [],
+  ...overrides
+});
+
+function fakeOctokit(responses: {
+  associated?: Array<{
+    number: number;
+    state: string;
+    base: { sha: string };
+    head: { sha: string };
+    user?: { login: string };
+  }>;
+  pulls?: Record<number, { user: { login: string } }>;
+  runs?: Array<{ head_sha: string; created_at: string }>;
+  files?: Array<{ filename: string; status: string; patch?: string }>;
+}): Octokit {
+  return {
+    rest: {
+      repos: {
+        listPullRequestsAssociatedWithCommit: async () => ({ data: responses.associated ?? [] }),
+        compareCommitsWithBasehead: async () => {
+          if (!responses.files) throw new Error("not found");
+          return { data: { files: responses.files } };
+        }
+      },
+      pulls: {
+        get: async ({ pull_number }: { pull_number: number }) => {
+          const pull = responses.pulls?.[pull_number];
+          if (!pull) throw new Error("not found");
+          return { data: pull };
+        }
+      },
+      actions: {
+        listWorkflowRuns: async () => ({ data: { workflow_runs: responses.runs ?? [] } })
+      }
+    }
+  } as unknown as Octokit;
+}
+
+describe("resolveChangeBase", () => {
+  it("uses the pull request base, looking up fork PRs by commit", async () => {
+    const sameRepo = run({
+      event: "pull_request",
+      pull_requests: [{ number: 12, base: { sha: "base111" }, head: { sha: "head000" } }]
+    });
+    const fork = run({ event: "pull_request", head_branch: "patch-1" });
+    const octokit = fakeOctokit({
+      associated: [
+        { number: 9, state: "closed", base: { sha: "old999" }, head: { sha: "head000" } },
+        { number: 15, state: "open", base: { sha: "base222" }, head: { sha: "head000" }, user: { login: "contributor" } }
+      ],
+      pulls: { 12: { user: { login: "author12" } } }
+    });
+
+    expect(await resolveChangeBase(octokit, "acme", "api", sameRepo)).toEqual({
+      sha: "base111",
+      source: "pull_request",
+      pullNumber: 12,
+      author: "author12"
+    });
+    expect(await resolveChangeBase(fakeOctokit({}), "acme", "api", sameRepo)).toEqual({
+      sha: "base111",
+      source: "pull_request",
+      pullNumber: 12,
+      author: undefined
+    });
+    expect(await resolveChangeBase(octokit, "acme", "api", fork)).toEqual({
+      sha: "base222",
+      source: "pull_request",
+      pullNumber: 15,
+      author: "contributor"
+    });
+  });
+
+  it("compares pushes with the last green run before this one", async () => {
+    const octokit = fakeOctokit({
+      runs: [
+        { head_sha: "later33", created_at: "2026-10-01T13:00:00Z" },
+        { head_sha: "head000", created_at: "2026-10-01T11:00:00Z" },
+        { head_sha: "green44", created_at: "2026-10-01T10:00:00Z" }
+      ]
+    });
+
+    expect(await resolveChangeBase(octokit, "acme", "api", run())).toEqual({ sha: "green44", source: "last_green" });
+    expect(await resolveChangeBase(fakeOctokit({}), "acme", "api", run())).toBeUndefined();
+  });
+
+  it("fetches files through the compare API, keeping the base if it fails", async () => {
+    const octokit = fakeOctokit({ runs: [{ head_sha: "green44", created_at: "2026-10-01T10:00:00Z" }] });
+    const changes = await collectChanges(
+      fakeOctokit({
+        runs: [{ head_sha: "green44", created_at: "2026-10-01T10:00:00Z" }],
+        files: [{ filename: "src/app.ts", status: "modified", patch: "@@ -1,2 +1,3 @@\n a\n+b\n c" }]
+      }),
+      "acme",
+      "api",
+      run()
+    );
+
+    expect(changes.changes).toEqual([
+      { path: "src/app.ts", status: "modified", previousPath: undefined, ranges: [{ start: 2, end: 2 }] }
+    ]);
+    expect(await collectChanges(octokit, "acme", "api", run())).toEqual({
+      changeBase: { sha: "green44", source: "last_green" }
+    });
+  });
+});
+
+describe("patchRanges", () => {
+  it("collects added lines on the head side, skipping removed and context lines", () => {
+    const patch = [
+      "@@ -10,6 +10,7 @@ export function total()",
+      " const a = 1;",
+      "-const b = 2;",
+      "+const b = 3;",
+      "+const c = 4;",
+      " return a + b;",
+      "@@ -40,3 +41,3 @@",
+      " x",
+      "-y",
+      "+z"
+    ].join("\n");
+
+    expect(patchRanges(patch)).toEqual([
+      { start: 11, end: 12 },
+      { start: 42, end: 42 }
+    ]);
+  });
+});
+
+describe("parseUnifiedDiff", () => {
+  it("reads paths, statuses and ranges from git diff output", () => {
+    const diff = [
+      "diff --git a/src/app.ts b/src/app.ts",
+      "index 1111111..2222222 100644",
+      "--- a/src/app.ts",
+      "+++ b/src/app.ts",
+      "@@ -3,0 +4,2 @@",
+      "+one",
+      "+two",
+      "diff --git a/src/new.ts b/src/new.ts",
+      "new file mode 100644",
+      "--- /dev/null",
+      "+++ b/src/new.ts",
+      "@@ -0,0 +1 @@",
+      "+export {};",
+      "diff --git a/old/name.ts b/src/name.ts",
+      "similarity index 100%",
+      "rename from old/name.ts",
+      "rename to src/name.ts",
+      "diff --git a/logo.png b/logo.png",
+      "index 3333333..4444444 100644",
+      "Binary files a/logo.png and b/logo.png differ"
+    ].join("\n");
+
+    expect(parseUnifiedDiff(diff)).toEqual([
+      { path: "src/app.ts", status: "modified", previousPath: undefined, ranges: [{ start: 4, end: 5 }] },
+      { path: "src/new.ts", status: "added", previousPath: undefined, ranges: [{ start: 1, end: 1 }] },
+      { path: "src/name.ts", status: "renamed", previousPath: "old/name.ts", ranges: [] },
+      { path: "logo.png", status: "modified", previousPath: undefined, ranges: undefined }
+    ]);
+  });
+});
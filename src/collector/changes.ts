@@ -0,0 +1,196 @@
+import { Octokit } from "@octokit/rest";
+import type { ChangeBase, ChangedFile } from "./types.js";
+
+const HUNK_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * The parts of a workflow run needed to find its comparison base
+ */
+export interface RunRef {
+  head_sha: string;
+  head_branch: string | null;
+  event: string;
+  workflow_id: number;
+  created_at: string;
+  pull_requests?: Array<{ number: number; base: { sha: string }; head: { sha: string } }> | null;
+}
+
+/**
+ * Work out what a run's head commit should be compared against and fetch
+ * the files changed since then. Pull request runs compare against the PR's
+ * base, pushes against the last green run of the same workflow and branch.
+ */
+export async function collectChanges(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  run: RunRef
+): Promise<{ changeBase?: ChangeBase; changes?: ChangedFile[] }> {
+  const changeBase = await resolveChangeBase(octokit, owner, repo, run);
+  if (!changeBase) return {};
+
+  try {
+    const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${changeBase.sha}...${run.head_sha}`,
+      per_page: 100
+    });
+    return { changeBase, changes: (data.files ?? []).map(toChangedFile) };
+  } catch (error) {
+    console.warn(`Failed to compare ${changeBase.sha.slice(0, 7)}...${run.head_sha.slice(0, 7)}:`, error);
+    return { changeBase };
+  }
+}
+
+export async function resolveChangeBase(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  run: RunRef
+): Promise<ChangeBase | undefined> {
+  // Same-repo pull requests come with the run; forks need a lookup
+  const pullRequest =
+    run.pull_requests?.find(pr => pr.head.sha === run.head_sha) ??
+    run.pull_requests?.[0] ??
+    (run.event.startsWith("pull_request") ? await findPullRequest(octokit, owner, repo, run.head_sha) : undefined);
+  if (pullRequest) {
+    // The run's own PR list leaves out the author, and the run's actor may
+    // only have re-run or merged it
+    const author =
+      "user" in pullRequest ? pullRequest.user?.login : await findPullRequestAuthor(octokit, owner, repo, pullRequest.number);
+    return { sha: pullRequest.base.sha, source: "pull_request", pullNumber: pullRequest.number, author };
+  }
+
+  if (!run.head_branch) return undefined;
+  try {
+    const { data } = await octokit.rest.actions.listWorkflowRuns({
+      owner,
+      repo,
+      workflow_id: run.workflow_id,
+      branch: run.head_branch,
+      status: "success",
+      per_page: 20
+    });
+    const lastGreen = data.workflow_runs.find(
+      candidate => candidate.head_sha !== run.head_sha && candidate.created_at < run.created_at
+    );
+    return lastGreen ? { sha: lastGreen.head_sha, source: "last_green" } : undefined;
+  } catch (error) {
+    console.warn(`Failed to find the last green run of ${run.head_branch}:`, error);
+    return undefined;
+  }
+}
+
+async function findPullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<{ number: number; base: { sha: string }; user?: { login: string } | null } | undefined> {
+  try {
+    const { data } = await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+      owner,
+      repo,
+      commit_sha: sha
+    });
+    return data.find(pr => pr.head.sha === sha && pr.state === "open") ?? data.find(pr => pr.head.sha === sha);
+  } catch (error) {
+    console.warn(`Failed to find the pull request for ${sha.slice(0, 7)}:`, error);
+    return undefined;
+  }
+}
+
+async function findPullRequestAuthor(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<string | undefined> {
+  try {
+    const { data } = await octokit.rest.pulls.get({ owner, repo, pull_number: pullNumber });
+    return data.user?.login;
+  } catch (error) {
+    console.warn(`Failed to fetch pull request #${pullNumber}:`, error);
+    return undefined;
+  }
+}
+
+function toChangedFile(file: {
+  filename: string;
+  status: string;
+  previous_filename?: string;
+  patch?: string;
+}): ChangedFile {
+  return {
+    path: file.filename,
+    status: normalizeStatus(file.status),
+    previousPath: file.previous_filename,
+    ranges: file.patch !== undefined ? patchRanges(file.patch) : undefined
+  };
+}
+
+function normalizeStatus(status: string): ChangedFile["status"] {
+  if (status === "added" || status === "removed" || status === "renamed") return status;
+  return "modified";
+}
+
+/**
+ * Head-side line ranges added or modified by one file's patch
+ */
+export function patchRanges(patch: string): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let line = 0;
+
+  for (const text of patch.split("\n")) {
+    const hunk = text.match(HUNK_PATTERN);
+    if (hunk) {
+      line = Number(hunk[1]);
+    } else if (text.startsWith("+")) {
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === line - 1) {
+        last.end = line;
+      } else {
+        ranges.push({ start: line, end: line });
+      }
+      line += 1;
+    } else if (text.startsWith(" ")) {
+      line += 1;
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Parse `git diff` output into changed files
+ */
+export function parseUnifiedDiff(diff: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+
+  for (const section of diff.split(/^diff --git /m).slice(1)) {
+    const lines = section.split("\n");
+    const paths = lines[0].match(/^a\/(.+) b\/(.+)$/);
+    if (!paths) continue;
+
+    const hunkStart = lines.findIndex(l => l.startsWith("@@"));
+    const header = hunkStart >= 0 ? lines.slice(0, hunkStart) : lines;
+    const has = (prefix: string) => header.some(l => l.startsWith(prefix));
+    const status: ChangedFile["status"] = has("new file mode")
+      ? "added"
+      : has("deleted file mode")
+        ? "removed"
+        : has("rename from")
+          ? "renamed"
+          : "modified";
+
+    files.push({
+      path: paths[2],
+      status,
+      previousPath: status === "renamed" ? paths[1] : undefined,
+      ranges: has("Binary files") ? undefined : hunkStart >= 0 ? patchRanges(lines.slice(hunkStart).join("\n")) : []
+    });
+  }
+
+  return files;
+}
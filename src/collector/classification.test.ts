@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import { compileClassificationRules } from "./classification.js";
+import { collectClassificationSignals, scoreClassification } from "./scoring.js";
+import { buildFailureContext } from "./context-builder.js";
+import type { ClassificationConfig } from "../config/greenlit.config.js";
+import type { WorkflowRunContext } from "./types.js";
+
+function run(jobName: string, logs: string, extra: Partial<WorkflowRunContext> = {}): WorkflowRunContext {
+  return {
+    runId: 1,
+    repo: { owner: "acme", repo: "api" },
+    headSha: "abc123",
+    headBranch: "main",
+    workflowName: "Inline CI",
+    failedJobs: [
+      {
+        jobId: 1,
+        jobName,
+        failedSteps: [{ stepName: "Install", conclusion: "failure", startedAt: "", completedAt: "" }],
+        logs
+      }
+    ],
+    ...extra
+  };
+}
+
+const config = (rules: ClassificationConfig["rules"], builtin_rules = true): ClassificationConfig => ({
+  builtin_rules,
+  rules
+});
+
+describe("classification rules", () => {
+  it("keeps the built-in behavior by default", async () => {
+    const context = await buildFailureContext(run("build", "Error: connect ECONNREFUSED 10.0.0.1:443"));
+
+    expect(context.failureClass).toBe("infra_outage");
+    expect(context.failureType).toBe("build");
+  });
+
+  it("lets custom rules classify errors the built-ins miss", async () => {
+    const classification = config([
+      { name: "artifactory", pattern: "artifactory\\.acme\\.internal.*(reset|refused)", class: "dependency_registry", priority: 100 },
+      { name: "runner disk", pattern: "no space left on device", job: "^build", class: "infra_outage", type: "build", priority: 100 }
+    ]);
+
+    const registry = await buildFailureContext(
+      run("install", "Error: artifactory.acme.internal: connection reset by peer"),
+      classification
+    );
+    const disk = await buildFailureContext(run("build-image", "write /tmp/x: no space left on device"), classification);
+    const otherJob = await buildFailureContext(run("deploy", "write /tmp/x: no space left on device"), classification);
+
+    expect(registry.failureClass).toBe("dependency_registry");
+    expect(disk.failureClass).toBe("infra_outage");
+    expect(disk.failureType).toBe("build");
+    expect(otherJob.failureClass).toBe("resource_exhaustion");
+  });
+
+  it("overrides built-ins by priority, and beats matrix evidence only above it", async () => {
+    const overridden = await buildFailureContext(
+      run("install", "Error: 403 Forbidden from registry"),
+      config([{ pattern: "403 forbidden from registry", class: "dependency_registry", priority: 95 }])
+    );
+    expect(overridden.failureClass).toBe("dependency_registry");
+
+    // One failing cell next to a passing sibling is evidence of an environment problem
+    const singleCell = run("test (ubuntu-latest, 18)", "Error: artifactory timeout", {
+      jobs: [
+        { jobId: 1, jobName: "test (ubuntu-latest, 18)", conclusion: "failure" },
+        { jobId: 2, jobName: "test (ubuntu-latest, 20)", conclusion: "success" }
+      ]
+    });
+    const low = await buildFailureContext(singleCell, config([{ pattern: "artifactory", class: "infra_outage", priority: 10 }]));
+    const high = await buildFailureContext(singleCell, config([{ pattern: "artifactory", class: "infra_outage", priority: 60 }]));
+
+    expect(low.failureClass).toBe("environment");
+    expect(high.failureClass).toBe("infra_outage");
+  });
+
+  it("can drop the built-ins and skips invalid patterns", () => {
+    const rules = compileClassificationRules(
+      config([{ pattern: "(unclosed", type: "test", priority: 100 }, { step: "^lint", type: "lint", priority: 100 }], false)
+    );
+
+    const topType = (jobNames: string[], stepNames: string[]) =>
+      scoreClassification(collectClassificationSignals(rules, { logs: "", jobNames, stepNames, workflowName: "CI" }))
+        .types[0].type;
+
+    expect(rules.map(rule => rule.name)).toEqual(["rule 2"]);
+    expect(topType(["ci"], ["Lint code"])).toBe("lint");
+    expect(topType(["test"], [])).toBe("unknown");
+  });
+
+  it("reports resource exhaustion, lost runners and timeouts instead of fixing them", async () => {
+    const oom = await buildFailureContext(
+      run("test", "FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory\nError: Process completed with exit code 137.")
+    );
+    const disk = await buildFailureContext(run("build", "cp: error writing 'dist/app.js': No space left on device"));
+    const lost = await buildFailureContext(
+      run("test", "", {
+        annotations: [{ level: "failure", message: "The runner has received a shutdown signal. This can happen when the runner service is stopped, or a manually started runner is canceled." }]
+      })
+    );
+    const timeout = await buildFailureContext(
+      run("e2e", "Waiting for server...", {
+        annotations: [{ level: "failure", message: "The job running on runner GitHub Actions 3 has exceeded the maximum execution time of 360 minutes." }]
+      })
+    );
+
+    expect(oom.failureClass).toBe("resource_exhaustion");
+    expect(oom.resource).toEqual({ kind: "memory", evidence: expect.stringContaining("JavaScript heap out of memory") });
+    expect(disk.resource?.kind).toBe("disk");
+    expect(lost.failureClass).toBe("runner_lost");
+    expect(lost.resource).toBeUndefined();
+    expect(timeout.failureClass).toBe("timeout");
+    expect([oom, disk, lost, timeout].map(context => context.routingDecision)).toEqual([
+      "report_only", "report_only", "report_only", "report_only"
+    ]);
+  });
+});
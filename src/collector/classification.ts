@@ -0,0 +1,146 @@
+import type { FailureClass, FailureType } from "./types.js";
+import type { ClassificationConfig, ClassificationRule } from "../config/greenlit.config.js";
+
+/**
+ * Rerun and matrix evidence rank here: a rule above it outweighs the
+ * evidence, a rule below it does not.
+ */
+export const EVIDENCE_PRIORITY = 50;
+
+/**
+ * Built-in rules, used unless `classification.builtin_rules` is off.
+ * Custom rules default to priority 100, above every built-in.
+ */
+export const BUILTIN_CLASSIFICATION_RULES: ClassificationRule[] = [
+  {
+    name: "runner_lost",
+    class: "runner_lost",
+    priority: 95,
+    pattern:
+      "the runner has received a shutdown signal|lost communication with the server|runner .* is offline"
+  },
+  {
+    name: "timeout",
+    class: "timeout",
+    priority: 95,
+    pattern: "has exceeded the maximum execution time|the action has timed out|the job was canceled because .* timed out"
+  },
+  {
+    name: "permissions",
+    class: "permissions",
+    priority: 90,
+    pattern:
+      "permission denied|insufficient permissions?|insufficient scopes?|resource not accessible|authentication failed|401 unauthorized|403 forbidden|eacces"
+  },
+  {
+    name: "secrets",
+    class: "secrets",
+    priority: 80,
+    pattern: "missing required secret|secret .* not found|unable to resolve credentials"
+  },
+  {
+    name: "resource_exhaustion",
+    class: "resource_exhaustion",
+    priority: 75,
+    pattern:
+      "no space left on device|enospc|disk quota exceeded|javascript heap out of memory|out of memory|oomkilled|oom-kill|cannot allocate memory|enomem|outofmemoryerror|too many open files|emfile"
+  },
+  {
+    name: "infra_outage",
+    class: "infra_outage",
+    priority: 70,
+    pattern:
+      "429 too many requests|503 service unavailable|502 bad gateway|etimedout|econnrefused|enotfound|dns resolution failed|network error|rate limit exceeded|github api rate"
+  },
+  {
+    name: "dependency_registry",
+    class: "dependency_registry",
+    priority: 60,
+    pattern:
+      "npm err! 404|npm err! 503|could not resolve.*registry|failed to fetch.*package|checksum mismatch|integrity check failed|pypi.*unavailable|crates\\.io.*error"
+  },
+  {
+    name: "flaky_log",
+    class: "flaky",
+    priority: 30,
+    pattern: "flaky|intermittent|timeout.*test|jest.*exceeded timeout|race condition"
+  },
+  // Job names are explicit signals; log content is the fallback
+  { name: "test_job", type: "test", priority: 40, job: "test|jest|vitest" },
+  { name: "lint_job", type: "lint", priority: 39, job: "lint|eslint" },
+  { name: "typecheck_job", type: "typecheck", priority: 38, job: "typecheck|tsc" },
+  { name: "build_job", type: "build", priority: 37, job: "build" },
+  {
+    name: "test_log",
+    type: "test",
+    priority: 20,
+    pattern: "test (failed|failure)|assertion|expect.*to|✕|failed tests?:"
+  },
+  { name: "lint_log", type: "lint", priority: 19, pattern: "eslint|prettier|lint error|linting" },
+  {
+    name: "typecheck_log",
+    type: "typecheck",
+    priority: 18,
+    pattern: "ts\\d+:|type error|cannot find name|type '.*' is not assignable"
+  },
+  { name: "build_log", type: "build", priority: 17, pattern: "build (failed|error)|compile error|module not found" }
+];
+
+/**
+ * What a rule is matched against
+ */
+export interface ClassificationInput {
+  logs: string;
+  jobNames: string[];
+  stepNames: string[];
+  workflowName: string;
+}
+
+export interface CompiledRule {
+  name: string;
+  priority: number;
+  class?: FailureClass;
+  type?: FailureType;
+  matches(input: ClassificationInput): boolean;
+}
+
+/**
+ * Compile custom and built-in rules, highest priority first. Invalid
+ * regexes are reported and their rule skipped.
+ */
+export function compileClassificationRules(config?: ClassificationConfig): CompiledRule[] {
+  const custom = config?.rules ?? [];
+  const builtin = config?.builtin_rules === false ? [] : BUILTIN_CLASSIFICATION_RULES;
+
+  return [...custom, ...builtin]
+    .flatMap((rule, index) => {
+      const compiled = compileRule(rule, rule.name || `rule ${index + 1}`);
+      return compiled ? [compiled] : [];
+    })
+    .sort((a, b) => b.priority - a.priority);
+}
+
+function compileRule(rule: ClassificationRule, name: string): CompiledRule | null {
+  try {
+    const regex = (source?: string) => (source ? new RegExp(source, "i") : undefined);
+    const pattern = regex(rule.pattern);
+    const job = regex(rule.job);
+    const step = regex(rule.step);
+    const workflow = regex(rule.workflow);
+
+    return {
+      name,
+      priority: rule.priority,
+      class: rule.class,
+      type: rule.type,
+      matches: input =>
+        (!pattern || pattern.test(input.logs)) &&
+        (!job || input.jobNames.some(n => job.test(n))) &&
+        (!step || input.stepNames.some(n => step.test(n))) &&
+        (!workflow || workflow.test(input.workflowName))
+    };
+  } catch (error) {
+    console.warn(`Ignoring classification rule ${name}:`, error);
+    return null;
+  }
+}
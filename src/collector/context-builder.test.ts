@@ -0,0 +1,151 @@
+import { execFileSync } from "child_process";
+import { describe, it, expect } from "vitest";
+import { buildJobFailureContexts } from "./context-builder.js";
+import { attachStepLogs, extractLogEntries } from "./log-archive.js";
+import type { FailedJob, WorkflowRunContext } from "./types.js";
+
+function job(jobId: number, jobName: string, completedAt: string, logs: string): FailedJob {
+  return {
+    jobId,
+    jobName,
+    failedSteps: [{ stepName: `Run ${jobName}`, conclusion: "failure", startedAt: completedAt, completedAt }],
+    logs
+  };
+}
+
+const runContext: WorkflowRunContext = {
+  runId: 1,
+  repo: { owner: "acme", repo: "api" },
+  headSha: "abc123",
+  headBranch: "main",
+  workflowName: "Inline CI",
+  failedJobs: [
+    job(1, "lint", "2026-10-19T10:05:00Z", "src/app.ts\n  3:7  error  'x' is unused  no-unused-vars\n✖ 1 problem"),
+    job(2, "unit tests", "2026-10-19T10:02:00Z", "FAIL src/math.test.ts\nError: expected 3 to be 4")
+  ],
+  annotations: [
+    { level: "failure", message: "'x' is unused", path: "src/app.ts", line: 3, jobName: "lint" }
+  ],
+  testFailures: [{ source: "junit", name: "adds", file: "src/math.test.ts", message: "expected 3 to be 4" }]
+};
+
+describe("buildJobFailureContexts", () => {
+  it("builds one context per failed job, first failure first", async () => {
+    const [primary, lint] = await buildJobFailureContexts(runContext);
+
+    expect(primary.evidence?.job).toBe("unit tests");
+    expect(primary.failureType).toBe("test");
+    expect(primary.errorSignature).toBe("adds: expected 3 to be 4");
+    expect(primary.diagnostics).toEqual([]);
+
+    expect(lint.evidence?.job).toBe("lint");
+    expect(lint.failureType).toBe("lint");
+    expect(lint.testFailures).toEqual([]);
+    expect(lint.diagnostics).toHaveLength(1);
+  });
+
+  it("falls back to Jest failures parsed from the log", async () => {
+    const [context] = await buildJobFailureContexts({
+      ...runContext,
+      failedJobs: [
+        job(
+          3,
+          "unit tests",
+          "2026-10-19T10:02:00Z",
+          [
+            "FAIL src/math.test.ts",
+            "  ● math › adds",
+            "",
+            "    expect(received).toBe(expected) // Object.is equality",
+            "",
+            "    Expected: 4",
+            "    Received: 3",
+            "",
+            "      at Object.<anonymous> (src/math.test.ts:7:19)",
+            "",
+            "Tests:       1 failed, 1 total"
+          ].join("\n")
+        )
+      ],
+      testFailures: undefined
+    });
+
+    expect(context.errorSignature).toBe(
+      "math › adds: expect(received).toBe(expected) // Object.is equality (expected 4, received 3)"
+    );
+    expect(context.evidence).toMatchObject({ file: "src/math.test.ts", line: "7" });
+    expect(context.evidence?.excerpt).toContain("Received: 3");
+  });
+
+  it("reads the failed step's slice of a plain-text job log", async () => {
+    const logs = [
+      "2026-10-19T10:00:05.0000000Z ##[group]Run npm run build",
+      "2026-10-19T10:00:06.0000000Z src/legacy.ts(3,1): warning TS6133: 'old' is declared but never read.",
+      "2026-10-19T10:00:11.0000000Z ##[group]Run npm test",
+      "2026-10-19T10:00:12.0000000Z FAIL src/math.test.ts",
+      "2026-10-19T10:00:12.1000000Z Error: expected 3 to be 4",
+      "2026-10-19T10:00:12.2000000Z ##[error]Process completed with exit code 1."
+    ].join("\n");
+    const [failedStep] = attachStepLogs(
+      [
+        {
+          stepName: "Run tests",
+          stepNumber: 3,
+          conclusion: "failure",
+          startedAt: "2026-10-19T10:00:11Z",
+          completedAt: "2026-10-19T10:00:12Z"
+        }
+      ],
+      extractLogEntries(Buffer.from(logs))
+    );
+    const [context] = await buildJobFailureContexts({
+      ...runContext,
+      failedJobs: [{ jobId: 5, jobName: "test", failedSteps: [failedStep], logs }],
+      testFailures: undefined
+    });
+
+    expect(context.rawLogs).toContain("Error: expected 3 to be 4");
+    expect(context.rawLogs).not.toContain("legacy.ts");
+  });
+
+  it("reads nothing from the working directory without a local checkout", async () => {
+    const head = execFileSync("git", ["rev-parse", "HEAD"], { encoding: "utf-8" }).trim();
+    const [context] = await buildJobFailureContexts(
+      { ...runContext, headSha: head, workflowPath: ".github/workflows/ci.yml" },
+      undefined,
+      { localCheckout: false }
+    );
+
+    expect(context.changes).toBeUndefined();
+    expect(context.stepCommand).toBeUndefined();
+    expect(context.recentCommits).toEqual([]);
+  });
+
+  it("takes changed files from the compare API over the local checkout", async () => {
+    const changeBase = { sha: "base111", source: "pull_request" as const, pullNumber: 4 };
+    const [context] = await buildJobFailureContexts({
+      ...runContext,
+      changeBase,
+      changes: [{ path: "src/math.ts", status: "modified", ranges: [{ start: 3, end: 5 }] }]
+    });
+
+    expect(context.changedFiles).toEqual(["src/math.ts"]);
+    expect(context.changes).toMatchObject({ base: changeBase, via: "api" });
+    expect(context.changeImpact).toMatchObject({
+      label: "pre_existing",
+      reason: "src/math.test.ts tests src/math.ts, which this PR changed"
+    });
+  });
+
+  it("puts jobs without logs last", async () => {
+    const contexts = await buildJobFailureContexts({
+      ...runContext,
+      failedJobs: [
+        { ...runContext.failedJobs[1], logs: "", logsUnavailable: "log expired" },
+        runContext.failedJobs[0]
+      ]
+    });
+
+    expect(contexts.map(context => context.evidence?.job)).toEqual(["lint", "unit tests"]);
+  });
+});
@@ -1,4 +1,4 @@
-import { execSync } from "child_process";
+import { execFileSync, execSync } from "child_process";
 import { createHash } from "crypto";
 import type {
   WorkflowRunContext,
@@ -6,42 +6,168 @@ import type {
   FailureType,
   FailureClass,
   RoutingDecision,
-  FailedJob
+  FailedJob,
+  MatrixSummary,
+  FlakeEvidence,
+  TestFailure,
+  CompilerDiagnostic,
+  LintViolation,
+  ChangeBase,
+  ChangeSet
 } from "./types.js";
 import { buildEvidencePack } from "./evidence.js";
+import { parseTestOutput } from "./test-output.js";
+import { formatDiagnosticLocation, parseTscOutput, summarizeTypecheck } from "./tsc.js";
+import { parseEslintOutput, summarizeLint } from "./eslint.js";
+import { detectExhaustedResource } from "./resources.js";
+import { summarizeMatrix } from "./matrix.js";
+import { parseUnifiedDiff } from "./changes.js";
+import { assessChangeImpact } from "./change-impact.js";
+import { compareAttempts } from "./attempts.js";
+import { resolveStepCommand } from "./workflow-steps.js";
+import { parseActionsLog, renderLogMessages, findExplicitErrors, type LogEntryLine } from "./log-parser.js";
+import { compileClassificationRules, type ClassificationInput } from "./classification.js";
+import { collectClassificationSignals, scoreClassification } from "./scoring.js";
+import type { ClassificationConfig } from "../config/greenlit.config.js";
+
+export interface ContextBuildOptions {
+  /**
+   * The working directory is a checkout of the run's repo, so workflow
+   * files and git history can be read from it. Defaults to true.
+   */
+  localCheckout?: boolean;
+}
 
 /**
  * Build comprehensive failure context from workflow run data
  */
 export async function buildFailureContext(
-  runContext: WorkflowRunContext
+  runContext: WorkflowRunContext,
+  classificationConfig?: ClassificationConfig,
+  options: ContextBuildOptions = {}
 ): Promise<FailureContext> {
+  const localCheckout = options.localCheckout !== false;
   const { failedJobs, repo, headSha, headBranch, workflowName } = runContext;
+  const rules = compileClassificationRules(classificationConfig);
+
+  // Combine all failed job logs (timestamps, colors and markers stripped)
+  const combinedLogs = renderLogMessages(
+    parseActionsLog(failedJobs.map(j => j.logs).join("\n---\n"))
+  );
+
+  // Prefer the failed steps' own output over the whole job log
+  const focusEntries = parseActionsLog(failedJobs.map(selectFailedStepLogs).join("\n---\n"));
+  const focusLogs = renderLogMessages(focusEntries);
+
+  // Structured test failures from test reports, else from test runner output in the log
+  const testFailures = runContext.testFailures?.length ? runContext.testFailures : parseTestOutput(focusLogs);
+
+  // TypeScript compiler errors, when the failed step ran tsc
+  const compilerDiagnostics = parseTscOutput(focusLogs);
+
+  // ESLint violations, when the failed step ran eslint
+  const lintViolations = parseEslintOutput(focusLogs);
+  const lintErrors = lintViolations.filter(v => v.severity === "error");
+
+  // Logs that could not be fetched must not be classified as if they were empty
+  const logsUnavailable = failedJobs
+    .filter(j => j.logsUnavailable)
+    .map(j => `${j.jobName}: ${j.logsUnavailable}`)
+    .join("; ") || undefined;
+  const blind =
+    failedJobs.length > 0 &&
+    failedJobs.every(j => j.logsUnavailable) &&
+    !testFailures.length &&
+    !(runContext.annotations ?? []).some(a => a.level === "failure");
+
+  // Extract error signature (test reports, explicit annotations, then first meaningful error)
+  const errorSignature = blind
+    ? `Logs unavailable (${logsUnavailable})`
+    : extractErrorSignature(focusEntries, testFailures, compilerDiagnostics, lintErrors);
+
+  // Inputs for the classification rules. Runner loss and timeouts are often
+  // reported only as annotations, so failure annotations count as log lines.
+  const ruleInput: ClassificationInput = {
+    logs: [
+      combinedLogs,
+      ...(runContext.annotations ?? []).filter(a => a.level === "failure").map(a => a.message)
+    ].join("\n"),
+    jobNames: failedJobs.map(j => j.jobName),
+    stepNames: failedJobs.flatMap(j => j.failedSteps.map(s => s.stepName)),
+    workflowName
+  };
 
-  // Combine all failed job logs
-  const combinedLogs = failedJobs.map(j => j.logs).join("\n---\n");
-
-  // Extract error signature (first meaningful error)
-  const errorSignature = extractErrorSignature(combinedLogs);
-
-  // Classify failure type (test/lint/build/typecheck)
-  const failureType = classifyFailureType(combinedLogs, failedJobs);
-
-  // Classify failure class (deterministic/flaky/infra/etc)
-  const failureClass = classifyFailureClass(combinedLogs, failedJobs);
+  // Is the primary failing job universal across its matrix or cell-specific?
+  const matrix = failedJobs[0]
+    ? summarizeMatrix(failedJobs[0], runContext.jobs ?? [], combinedLogs)
+    : undefined;
+
+  // Did the same commit pass on another attempt of this run?
+  const flakeEvidence = runContext.attempts && runContext.runAttempt
+    ? compareAttempts(failedJobs, runContext.attempts, runContext.runAttempt)
+    : undefined;
+
+  const evidence = buildEvidencePack(
+    focusEntries,
+    failedJobs,
+    runContext.annotations,
+    testFailures,
+    compilerDiagnostics,
+    lintErrors
+  );
+  const typecheck = compilerDiagnostics.length ? summarizeTypecheck(compilerDiagnostics) : undefined;
+  const lint = lintViolations.length ? summarizeLint(lintViolations) : undefined;
+
+  // Did the change touch the failing lines?
+  const changes = getChanges(runContext, localCheckout);
+  const changeImpact = assessChangeImpact({
+    changes,
+    evidence,
+    testFailures,
+    typecheck,
+    lint,
+    diagnostics: runContext.annotations
+  });
+
+  // Score every failure class and type; the labels are the most likely ones
+  const classification = scoreClassification(
+    collectClassificationSignals(rules, ruleInput, {
+      matrix,
+      flakeEvidence,
+      blind,
+      diagnostics: runContext.annotations,
+      testFailures,
+      compilerDiagnostics,
+      lintErrors,
+      changeImpact
+    })
+  );
+  const failureClass = classification.classes[0]?.class ?? "unknown";
+  const failureType = classification.types[0]?.type ?? "unknown";
+
+  // What the runner ran out of, for the card
+  const resource = failureClass === "resource_exhaustion" ? detectExhaustedResource(ruleInput.logs) : undefined;
 
   // Determine routing decision
   const routingDecision = determineRouting(failureClass);
 
-  // Find the failed command
-  const failedCommand = extractFailedCommand(failedJobs, combinedLogs);
+  // Find the failed command: the step's script from the workflow file, else a guess from logs
+  const stepCommand = localCheckout ? resolveStepCommand(runContext) : undefined;
+  const failedCommand = stepCommand?.run ?? extractFailedCommand(failedJobs, focusLogs);
 
   // Extract mentioned file paths
-  const relevantFiles = extractFilePaths(combinedLogs);
+  const relevantFiles = [
+    ...new Set([
+      ...testFailures.map(t => t.file).filter((f): f is string => Boolean(f)),
+      ...compilerDiagnostics.map(d => d.file).filter((f): f is string => Boolean(f)),
+      ...lintErrors.map(v => v.file),
+      ...extractFilePaths(focusLogs)
+    ])
+  ].slice(0, 15);
 
   // Get git context
-  const changedFiles = getChangedFiles();
-  const recentCommits = getRecentCommits(5);
+  const changedFiles = changes?.files.map(f => f.path) ?? [];
+  const recentCommits = localCheckout ? getRecentCommits(5) : [];
 
   // Generate fingerprint for memory lookup
   const fingerprint = generateFingerprint(failureType, errorSignature, failedJobs);
@@ -54,135 +180,88 @@ export async function buildFailureContext(
     workflowName,
     failureType,
     failureClass,
+    classification,
     routingDecision,
     failedCommand,
+    stepCommand,
     errorSignature,
+    logsUnavailable,
     relevantFiles,
-    rawLogs: combinedLogs,
-    extractedErrors: extractErrorMessages(combinedLogs),
-    evidence: buildEvidencePack(combinedLogs, failedJobs),
+    rawLogs: focusLogs,
+    extractedErrors: extractErrorMessages(focusLogs),
+    evidence,
+    diagnostics: runContext.annotations,
+    matrix,
+    flakeEvidence,
+    testFailures,
+    typecheck,
+    lint,
+    resource,
     changedFiles,
+    changes,
+    changeImpact,
     recentCommits,
     fingerprint
   };
 }
 
 /**
- * Classify the type of failure (test/lint/build/typecheck)
+ * Build one failure context per failed job, so unrelated failures in the
+ * same run (lint and tests, say) each get their own signature, routing and
+ * owner. The first context is the primary failure: the job whose failed
+ * step finished first, preferring jobs whose logs could be fetched.
  */
-function classifyFailureType(logs: string, jobs: FailedJob[]): FailureType {
-  const lowerLogs = logs.toLowerCase();
-  const jobNames = jobs.map(j => j.jobName.toLowerCase()).join(" ");
-
-  // Check job names first for explicit signals
-  if (jobNames.includes("test") || jobNames.includes("jest") || jobNames.includes("vitest")) {
-    return "test";
-  }
-  if (jobNames.includes("lint") || jobNames.includes("eslint")) {
-    return "lint";
-  }
-  if (jobNames.includes("typecheck") || jobNames.includes("tsc")) {
-    return "typecheck";
-  }
-  if (jobNames.includes("build")) {
-    return "build";
-  }
-
-  // Fall back to log content analysis
-  if (/test (failed|failure)|assertion|expect.*to|✕|failed tests?:/i.test(lowerLogs)) {
-    return "test";
-  }
-  if (/eslint|prettier|lint error|linting/i.test(lowerLogs)) {
-    return "lint";
-  }
-  if (/ts\d+:|type error|cannot find name|type '.*' is not assignable/i.test(lowerLogs)) {
-    return "typecheck";
-  }
-  if (/build (failed|error)|compile error|module not found/i.test(lowerLogs)) {
-    return "build";
+export async function buildJobFailureContexts(
+  runContext: WorkflowRunContext,
+  classificationConfig?: ClassificationConfig,
+  options: ContextBuildOptions = {}
+): Promise<FailureContext[]> {
+  const contexts: FailureContext[] = [];
+  for (const job of orderByFirstFailure(runContext.failedJobs)) {
+    contexts.push(await buildFailureContext(narrowToJob(runContext, job), classificationConfig, options));
   }
+  return contexts;
+}
 
-  return "unknown";
+function orderByFirstFailure(jobs: FailedJob[]): FailedJob[] {
+  const failedAt = (job: FailedJob) => {
+    const times = job.failedSteps
+      .map(step => Date.parse(step.completedAt))
+      .filter(time => !Number.isNaN(time));
+    return times.length ? Math.min(...times) : Number.POSITIVE_INFINITY;
+  };
+  return [...jobs].sort(
+    (a, b) => Number(Boolean(a.logsUnavailable)) - Number(Boolean(b.logsUnavailable)) || failedAt(a) - failedAt(b)
+  );
 }
 
 /**
- * Classify the class of failure (determines routing)
+ * The run as seen by one failed job. Test reports that don't name their
+ * job go to the test-like jobs, or to every job when none looks like one.
  */
-function classifyFailureClass(logs: string, jobs: FailedJob[]): FailureClass {
-  const lowerLogs = logs.toLowerCase();
-
-  // Check for permissions issues
-  const permissionsPatterns = [
-    /permission denied/i,
-    /insufficient permissions?/i,
-    /insufficient scopes?/i,
-    /resource not accessible/i,
-    /resource not accessible by integration/i,
-    /authentication failed/i,
-    /401 unauthorized/i,
-    /403 forbidden/i,
-    /eacces/i
-  ];
-  if (permissionsPatterns.some(p => p.test(lowerLogs))) {
-    return "permissions";
-  }
-
-  // Check for secrets issues
-  const secretsPatterns = [
-    /missing required secret/i,
-    /secret .* not found/i,
-    /unable to resolve credentials/i
-  ];
-  if (secretsPatterns.some(p => p.test(lowerLogs))) {
-    return "secrets";
-  }
-
-  // Check for external outage / infra issues
-  const infraPatterns = [
-    /429 too many requests/i,
-    /503 service unavailable/i,
-    /502 bad gateway/i,
-    /ETIMEDOUT/i,
-    /ECONNREFUSED/i,
-    /ENOTFOUND/i,
-    /dns resolution failed/i,
-    /network error/i,
-    /rate limit exceeded/i,
-    /github api rate/i
-  ];
-  if (infraPatterns.some(p => p.test(lowerLogs))) {
-    return "infra_outage";
-  }
-
-  // Check for dependency registry issues
-  const depPatterns = [
-    /npm err! 404/i,
-    /npm err! 503/i,
-    /could not resolve.*registry/i,
-    /failed to fetch.*package/i,
-    /checksum mismatch/i,
-    /integrity check failed/i,
-    /pypi.*unavailable/i,
-    /crates\.io.*error/i
-  ];
-  if (depPatterns.some(p => p.test(lowerLogs))) {
-    return "dependency_registry";
-  }
+function narrowToJob(runContext: WorkflowRunContext, job: FailedJob): WorkflowRunContext {
+  const looksLikeTests = (name: string) => /test|spec/i.test(name);
+  const hasTestJob = runContext.failedJobs.some(j => looksLikeTests(j.jobName));
 
-  // Check for flaky signals (this is a simple heuristic)
-  const flakyPatterns = [
-    /flaky/i,
-    /intermittent/i,
-    /timeout.*test/i,
-    /jest.*exceeded timeout/i,
-    /race condition/i
-  ];
-  if (flakyPatterns.some(p => p.test(lowerLogs))) {
-    return "flaky";
-  }
+  return {
+    ...runContext,
+    failedJobs: [job],
+    annotations: runContext.annotations?.filter(a => !a.jobName || a.jobName === job.jobName),
+    testFailures: runContext.testFailures?.filter(t =>
+      t.job ? t.job === job.jobName : !hasTestJob || looksLikeTests(job.jobName)
+    )
+  };
+}
 
-  // Default to deterministic (code failure that can be fixed)
-  return "deterministic";
+/**
+ * Logs of the job's failed steps, falling back to the whole job log
+ * when no per-step slices are available
+ */
+function selectFailedStepLogs(job: FailedJob): string {
+  const stepLogs = job.failedSteps
+    .map(s => s.logs)
+    .filter((logs): logs is string => Boolean(logs?.trim()));
+  return stepLogs.length ? stepLogs.join("\n") : job.logs;
 }
 
 /**
@@ -198,6 +277,10 @@ function determineRouting(failureClass: FailureClass): RoutingDecision {
     case "permissions":
     case "infra_outage":
     case "dependency_registry":
+    case "environment":
+    case "resource_exhaustion":
+    case "runner_lost":
+    case "timeout":
       return "report_only";
     default:
       return "escalate";
@@ -207,7 +290,40 @@ function determineRouting(failureClass: FailureClass): RoutingDecision {
 /**
  * Extract the primary error signature for fingerprinting
  */
-function extractErrorSignature(logs: string): string {
+function extractErrorSignature(
+  entries: LogEntryLine[],
+  testFailures: TestFailure[] = [],
+  compilerDiagnostics: CompilerDiagnostic[] = [],
+  lintErrors: LintViolation[] = []
+): string {
+  const firstTest = testFailures[0];
+  if (firstTest) {
+    const name = firstTest.suite ? `${firstTest.suite} › ${firstTest.name}` : firstTest.name;
+    const values = firstTest.expected !== undefined && firstTest.received !== undefined
+      ? ` (expected ${firstTest.expected}, received ${firstTest.received})`
+      : "";
+    return `${name}: ${firstTest.message.split("\n")[0]}${values}`.slice(0, 300);
+  }
+
+  const firstDiagnostic = compilerDiagnostics[0];
+  if (firstDiagnostic) {
+    const location = formatDiagnosticLocation(firstDiagnostic);
+    const prefix = location === firstDiagnostic.code ? location : `${location} ${firstDiagnostic.code}`;
+    return `${prefix}: ${firstDiagnostic.message.split("\n")[0]}`.slice(0, 300);
+  }
+
+  const firstLintError = lintErrors[0];
+  if (firstLintError) {
+    const location = [firstLintError.file, firstLintError.line, firstLintError.column].filter(Boolean).join(":");
+    return `${location} ${firstLintError.ruleId ?? "error"}: ${firstLintError.message}`.slice(0, 300);
+  }
+
+  const explicit = findExplicitErrors(entries)[0];
+  if (explicit) {
+    return explicit.message.split("\n")[0].trim().slice(0, 300);
+  }
+
+  const logs = renderLogMessages(entries);
   const patterns = [
     /Error:.*$/m,
     /FAIL.*$/m,
@@ -318,17 +434,34 @@ function extractFilePaths(logs: string): string[] {
 }
 
 /**
- * Get files changed in the current PR/commit
+ * Files changed since the run's base: the compare API result when the
+ * collector got one, else a local `git diff` against the base, or against
+ * the parent commit when no base is known. The local diff needs the run's
+ * head commit in the checkout.
  */
-function getChangedFiles(): string[] {
+function getChanges(runContext: WorkflowRunContext, localCheckout: boolean): ChangeSet | undefined {
+  if (runContext.changes) {
+    return { base: runContext.changeBase, via: "api", files: runContext.changes };
+  }
+  if (!localCheckout) return undefined;
+
+  // A checkout without the run's commit can't say what it changed
+  const head = runContext.headSha;
+  if (git(["cat-file", "-e", `${head}^{commit}`]) === null) return undefined;
+
+  const parent = runContext.changeBase ? null : git(["rev-parse", `${head}~1`])?.trim();
+  const base: ChangeBase | undefined = runContext.changeBase ?? (parent ? { sha: parent, source: "parent" } : undefined);
+  if (!base) return undefined;
+
+  const diff = git(["diff", "-M", "--unified=0", "--no-color", `${base.sha}...${head}`]);
+  return diff === null ? undefined : { base, via: "git", files: parseUnifiedDiff(diff) };
+}
+
+function git(args: string[]): string | null {
   try {
-    const result = execSync("git diff --name-only HEAD~1 2>/dev/null || git diff --name-only HEAD", {
-      encoding: "utf-8",
-      stdio: ["pipe", "pipe", "pipe"]
-    });
-    return result.trim().split("\n").filter(Boolean);
+    return execFileSync("git", args, { encoding: "utf-8", stdio: ["pipe", "pipe", "pipe"] });
   } catch {
-    return [];
+    return null;
   }
 }
 
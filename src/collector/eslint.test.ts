@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { parseEslintOutput, summarizeLint } from "./eslint.js";
+
+const STYLISH = `> eslint src
+
+/home/runner/work/api/api/src/app.ts
+  3:7   error    Missing semicolon                            semi
+  5:1   warning  Unexpected console statement                 no-console
+
+src/util.ts
+  1:10  error  Strings must use doublequote  quotes
+
+✖ 3 problems (2 errors, 1 warning)
+  2 errors and 0 warnings potentially fixable with the \`--fix\` option.`;
+
+describe("parseEslintOutput", () => {
+  it("parses stylish output, trusting the fixable summary", () => {
+    const violations = parseEslintOutput(STYLISH);
+
+    expect(violations).toEqual([
+      { file: "src/app.ts", line: 3, column: 7, ruleId: "semi", severity: "error", message: "Missing semicolon", fixable: true },
+      {
+        file: "src/app.ts",
+        line: 5,
+        column: 1,
+        ruleId: "no-console",
+        severity: "warning",
+        message: "Unexpected console statement",
+        fixable: false
+      },
+      { file: "src/util.ts", line: 1, column: 10, ruleId: "quotes", severity: "error", message: "Strings must use doublequote", fixable: true }
+    ]);
+    expect(summarizeLint(violations)).toMatchObject({ errors: 2, warnings: 1, fixableErrors: 2 });
+
+    const partly = parseEslintOutput(STYLISH.replace("2 errors and 0 warnings", "1 error and 0 warnings"));
+    expect(summarizeLint(partly).fixableErrors).toBe(0);
+  });
+
+  it("prefers a JSON report, which flags each fixable violation", () => {
+    const report = JSON.stringify([
+      {
+        filePath: "/home/runner/work/api/api/src/app.ts",
+        messages: [
+          { ruleId: "semi", severity: 2, message: "Missing semicolon", line: 3, column: 7, fix: { range: [10, 10], text: ";" } },
+          { ruleId: "no-unused-vars", severity: 2, message: "'x' is defined but never used", line: 4, column: 7 }
+        ]
+      }
+    ]);
+
+    const violations = parseEslintOutput(`> eslint -f json src\n${report}`);
+
+    expect(violations.map(v => [v.ruleId, v.fixable])).toEqual([
+      ["semi", true],
+      ["no-unused-vars", false]
+    ]);
+    expect(violations[0].file).toBe("src/app.ts");
+  });
+});
@@ -0,0 +1,107 @@
+import type { LintSummary, LintViolation } from "./types.js";
+import { relativizeRunnerPath } from "../utils/paths.js";
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+const FILE_PATTERN = /^(\S+\.[cm]?[jt]sx?|\S+\.(?:vue|svelte|astro|json|md|mdx))$/i;
+// `  3:7  error  'x' is assigned a value but never used  no-unused-vars`
+const VIOLATION_PATTERN = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?$/;
+const FIXABLE_PATTERN = /(\d+) errors? and (\d+) warnings? potentially fixable with the `--fix` option/;
+
+interface EslintJsonResult {
+  filePath?: string;
+  messages?: Array<{
+    ruleId?: string | null;
+    severity?: number;
+    message?: string;
+    line?: number;
+    column?: number;
+    fix?: unknown;
+  }>;
+}
+
+/**
+ * Parse ESLint violations out of a log: a `-f json` report printed to
+ * stdout, else the default stylish format. Stylish output doesn't flag
+ * each violation, so they are marked fixable only when its summary says
+ * every one of them is.
+ */
+export function parseEslintOutput(logs: string): LintViolation[] {
+  const lines = logs.replace(ANSI_PATTERN, "").split("\n").map(line => line.trimEnd());
+  const jsonLine = lines
+    .map(line => line.trim())
+    .find(line => line.startsWith("[") && line.includes('"filePath"') && line.includes('"messages"'));
+  const fromJson = jsonLine ? parseEslintJson(jsonLine) : [];
+  return fromJson.length ? fromJson : parseStylish(lines);
+}
+
+/**
+ * Parse an ESLint JSON report
+ */
+export function parseEslintJson(content: string): LintViolation[] {
+  let results: EslintJsonResult[];
+  try {
+    results = JSON.parse(content) as EslintJsonResult[];
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(results)) return [];
+
+  return results.flatMap(result =>
+    (result.messages ?? []).map(message => ({
+      file: relativizeRunnerPath(result.filePath ?? "(unknown)"),
+      line: message.line,
+      column: message.column,
+      ruleId: message.ruleId ?? undefined,
+      severity: message.severity === 2 ? ("error" as const) : ("warning" as const),
+      message: message.message ?? "(no message)",
+      fixable: Boolean(message.fix)
+    }))
+  );
+}
+
+function parseStylish(lines: string[]): LintViolation[] {
+  const violations: LintViolation[] = [];
+  let file: string | undefined;
+  let fixable: { errors: number; warnings: number } | undefined;
+
+  for (const line of lines) {
+    const header = line.match(FILE_PATTERN);
+    const violation = file ? line.match(VIOLATION_PATTERN) : null;
+    const summary = line.match(FIXABLE_PATTERN);
+
+    if (header) {
+      file = relativizeRunnerPath(header[1]);
+    } else if (violation && file) {
+      violations.push({
+        file,
+        line: Number(violation[1]),
+        column: Number(violation[2]),
+        ruleId: violation[5],
+        severity: violation[3] as LintViolation["severity"],
+        message: violation[4].trim(),
+        fixable: false
+      });
+    } else if (summary) {
+      fixable = { errors: Number(summary[1]), warnings: Number(summary[2]) };
+    } else if (!line.trim()) {
+      file = undefined;
+    }
+  }
+
+  const errors = violations.filter(v => v.severity === "error").length;
+  const warnings = violations.length - errors;
+  return violations.map(v => ({
+    ...v,
+    fixable: v.severity === "error" ? fixable?.errors === errors : fixable?.warnings === warnings
+  }));
+}
+
+export function summarizeLint(violations: LintViolation[]): LintSummary {
+  const errors = violations.filter(v => v.severity === "error");
+  return {
+    errors: errors.length,
+    warnings: violations.length - errors.length,
+    fixableErrors: errors.filter(v => v.fixable).length,
+    violations
+  };
+}
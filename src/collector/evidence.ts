@@ -1,24 +1,100 @@
-import type { FailedJob, EvidencePack } from "./types.js";
+import type {
+  FailedJob,
+  EvidencePack,
+  Diagnostic,
+  TestFailure,
+  CompilerDiagnostic,
+  LintViolation
+} from "./types.js";
+import { findExplicitErrors, type LogEntryLine } from "./log-parser.js";
+import { formatDiagnosticLocation } from "./tsc.js";
 
 const FILE_LINE_PATTERN =
   /([^\s:]+?\.(?:[jt]sx?|py|go|rs|java|cs|cpp|c|rb|php|kt|swift|scala)):(\d+)(?::\d+)?/g;
 
 /**
- * Build a small evidence pack from logs and failed job metadata.
+ * Build a small evidence pack from parsed log entries and failed job metadata.
+ * Check-run annotations win over failing test locations, then TypeScript
+ * and ESLint errors, then `::error file=…,line=…` log commands, then regex matches.
  */
-export function buildEvidencePack(logs: string, failedJobs: FailedJob[]): EvidencePack {
+export function buildEvidencePack(
+  entries: LogEntryLine[],
+  failedJobs: FailedJob[],
+  diagnostics: Diagnostic[] = [],
+  testFailures: TestFailure[] = [],
+  compilerDiagnostics: CompilerDiagnostic[] = [],
+  lintErrors: LintViolation[] = []
+): EvidencePack {
   const evidence: EvidencePack = {};
 
-  const logLines = logs.split("\n");
-  const bestMatch = findBestFileLineMatch(logLines);
-  if (bestMatch) {
-    evidence.file = bestMatch.file;
-    evidence.line = bestMatch.line;
-  }
+  const logLines = entries.map(e => e.message);
+  const diagnostic = findLocatedDiagnostic(diagnostics);
+  const testFailure = testFailures.find(t => t.file);
+  const compilerDiagnostic = compilerDiagnostics.find(d => d.file);
+  const lintError = lintErrors[0];
+  const annotated = findExplicitErrors(entries).find(e => e.annotation?.file);
+  if (diagnostic?.path) {
+    evidence.file = diagnostic.path;
+    if (diagnostic.line !== undefined) {
+      evidence.line = String(diagnostic.line);
+    }
+    const mention = logLines.findIndex(line => line.includes(diagnostic.path!));
+    evidence.excerpt = mention >= 0
+      ? logLines.slice(Math.max(mention - 5, 0), mention + 6).join("\n")
+      : diagnostic.message;
+  } else if (testFailure?.file) {
+    evidence.file = testFailure.file;
+    if (testFailure.line !== undefined) {
+      evidence.line = String(testFailure.line);
+    }
+    evidence.excerpt = [
+      testFailure.message,
+      testFailure.diff ??
+        (testFailure.expected !== undefined ? `Expected: ${testFailure.expected}\nReceived: ${testFailure.received}` : undefined),
+      testFailure.frame,
+      testFailure.stack
+    ]
+      .filter(Boolean)
+      .join("\n")
+      .split("\n")
+      .slice(0, 11)
+      .join("\n");
+  } else if (compilerDiagnostic?.file) {
+    evidence.file = compilerDiagnostic.file;
+    if (compilerDiagnostic.line !== undefined) {
+      evidence.line = String(compilerDiagnostic.line);
+    }
+    evidence.excerpt = compilerDiagnostics
+      .slice(0, 10)
+      .map(d => `${formatDiagnosticLocation(d)} ${d.code}: ${d.message.split("\n")[0]}`)
+      .join("\n");
+  } else if (lintError) {
+    evidence.file = lintError.file;
+    if (lintError.line !== undefined) {
+      evidence.line = String(lintError.line);
+    }
+    evidence.excerpt = lintErrors
+      .slice(0, 10)
+      .map(v => `${v.file}:${v.line ?? 0}:${v.column ?? 0} ${v.ruleId ?? "error"}: ${v.message}`)
+      .join("\n");
+  } else if (annotated?.annotation?.file) {
+    evidence.file = annotated.annotation.file;
+    if (annotated.annotation.line !== undefined) {
+      evidence.line = String(annotated.annotation.line);
+    }
+    const index = entries.indexOf(annotated);
+    evidence.excerpt = logLines.slice(Math.max(index - 5, 0), index + 6).join("\n");
+  } else {
+    const bestMatch = findBestFileLineMatch(logLines);
+    if (bestMatch) {
+      evidence.file = bestMatch.file;
+      evidence.line = bestMatch.line;
+    }
 
-  const excerpt = extractExcerpt(logLines, bestMatch?.matchedText);
-  if (excerpt) {
-    evidence.excerpt = excerpt;
+    const excerpt = extractExcerpt(logLines, bestMatch?.matchedText);
+    if (excerpt) {
+      evidence.excerpt = excerpt;
+    }
   }
 
   const failingJob = failedJobs[0];
@@ -30,6 +106,16 @@ export function buildEvidencePack(logs: string, failedJobs: FailedJob[]): Eviden
   return evidence;
 }
 
+/**
+ * First failure annotation that points at a source location. The runner's own
+ * annotations (e.g. "Process completed with exit code 1") point at `.github`.
+ */
+function findLocatedDiagnostic(diagnostics: Diagnostic[]): Diagnostic | undefined {
+  return diagnostics.find(
+    d => d.level === "failure" && d.path && !d.path.startsWith(".github")
+  );
+}
+
 function findBestFileLineMatch(
   lines: string[]
 ): { file: string; line: string; matchedText: string } | undefined {
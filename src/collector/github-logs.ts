@@ -1,6 +1,24 @@
 import { Octokit } from "@octokit/rest";
-import AdmZip from "adm-zip";
-import type { WorkflowRunContext, FailedJob, FailedStep } from "./types.js";
+import { compactLogs } from "./log-compactor.js";
+import {
+  attachStepLogs,
+  extractLogEntries,
+  normalizeLogBuffer,
+  JOB_LOG_BUDGET
+} from "./log-archive.js";
+import { parseMatrixJobName } from "./matrix.js";
+import { summarizeAttempt } from "./attempts.js";
+import { collectTestReportFailures } from "./test-reports.js";
+import { collectChanges } from "./changes.js";
+import type { TestReportsConfig } from "../config/greenlit.config.js";
+import type {
+  WorkflowRunContext,
+  FailedJob,
+  JobSummary,
+  LogEntry,
+  Diagnostic,
+  AttemptSummary
+} from "./types.js";
 
 /**
  * Collect failure context from a GitHub Actions workflow run
@@ -9,7 +27,8 @@ export async function collectFailureContext(
   octokit: Octokit,
   runId: number,
   owner: string,
-  repo: string
+  repo: string,
+  options: { testReports?: TestReportsConfig } = {}
 ): Promise<WorkflowRunContext> {
   // 1. Get workflow run details
   const { data: run } = await octokit.rest.actions.getWorkflowRun({
@@ -18,146 +37,187 @@ export async function collectFailureContext(
     run_id: runId
   });
 
-  // 2. Get jobs for this run
-  const { data: jobsResponse } = await octokit.rest.actions.listJobsForWorkflowRun({
+  // 2. Get all jobs for this run (large matrices span several pages)
+  const jobs = await octokit.paginate(octokit.rest.actions.listJobsForWorkflowRun, {
     owner,
     repo,
     run_id: runId,
-    filter: "latest"
+    filter: "latest",
+    per_page: 100
   });
 
+  const jobSummaries: JobSummary[] = jobs.map(job => ({
+    jobId: job.id,
+    jobName: job.name,
+    conclusion: job.conclusion || "unknown",
+    matrix: parseMatrixJobName(job.name)
+  }));
+
   // 3. Filter to failed jobs and fetch logs
   const failedJobs: FailedJob[] = [];
 
-  for (const job of jobsResponse.jobs.filter(j => j.conclusion === "failure")) {
-    const logs = await fetchJobLogs(octokit, owner, repo, job.id);
-    const failedSteps: FailedStep[] = (job.steps || [])
-      .filter(s => s.conclusion === "failure")
-      .map(s => ({
-        stepName: s.name,
-        conclusion: s.conclusion || "unknown",
-        startedAt: s.started_at || "",
-        completedAt: s.completed_at || ""
-      }));
+  for (const job of jobs.filter(j => j.conclusion === "failure")) {
+    const { entries, unavailable } = await fetchJobLogEntries(octokit, owner, repo, job.id);
+    const failedSteps = attachStepLogs(
+      (job.steps || [])
+        .filter(s => s.conclusion === "failure")
+        .map(s => ({
+          stepName: s.name,
+          stepNumber: s.number,
+          conclusion: s.conclusion || "unknown",
+          startedAt: s.started_at || "",
+          completedAt: s.completed_at || ""
+        })),
+      entries
+    );
 
     failedJobs.push({
       jobId: job.id,
       jobName: job.name,
       failedSteps,
-      logs: truncateLogs(logs, 15000) // Keep last 15k chars
+      logs: compactLogs(entries.map(e => e.content).join("\n"), JOB_LOG_BUDGET),
+      logsUnavailable: unavailable,
+      matrix: parseMatrixJobName(job.name)
     });
   }
 
+  // 4. Check-run annotations (problem matchers, linters, tsc)
+  const annotations = await getRunAnnotations(octokit, owner, repo, failedJobs);
+
+  // 5. Earlier attempts of the same run, for flake detection
+  const runAttempt = run.run_attempt ?? 1;
+  const attempts = [
+    ...(await getPreviousAttempts(octokit, owner, repo, runId, runAttempt)),
+    summarizeAttempt(runAttempt, jobs)
+  ];
+
+  // 6. Structured test failures from JUnit artifacts (opt-in)
+  const testFailures = options.testReports
+    ? await collectTestReportFailures(octokit, owner, repo, runId, options.testReports)
+    : [];
+
+  // 7. What the head commit changed: since the PR base, or the last green run for pushes
+  const { changeBase, changes } = await collectChanges(octokit, owner, repo, run);
+
   return {
     runId,
     repo: { owner, repo },
     headSha: run.head_sha,
     headBranch: run.head_branch || "unknown",
     workflowName: run.name || "CI",
-    failedJobs
+    workflowPath: run.path || undefined,
+    failedJobs,
+    jobs: jobSummaries,
+    annotations,
+    runAttempt,
+    attempts,
+    testFailures,
+    changeBase,
+    changes
   };
 }
 
 /**
- * Fetch logs for a specific job
+ * Summarize the jobs of every attempt before the current one
+ */
+async function getPreviousAttempts(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  runId: number,
+  currentAttempt: number
+): Promise<AttemptSummary[]> {
+  const attempts: AttemptSummary[] = [];
+
+  for (let attempt = 1; attempt < currentAttempt; attempt += 1) {
+    try {
+      const jobs = await octokit.paginate(octokit.rest.actions.listJobsForWorkflowRunAttempt, {
+        owner,
+        repo,
+        run_id: runId,
+        attempt_number: attempt,
+        per_page: 100
+      });
+      attempts.push(summarizeAttempt(attempt, jobs));
+    } catch (error) {
+      console.warn(`Failed to fetch jobs for attempt ${attempt} of run ${runId}:`, error);
+    }
+  }
+
+  return attempts;
+}
+
+/**
+ * Fetch logs for a specific job, one entry per step when GitHub serves an archive.
+ * A failed or empty download is reported as unavailable rather than as an empty log.
  */
-async function fetchJobLogs(
+async function fetchJobLogEntries(
   octokit: Octokit,
   owner: string,
   repo: string,
   jobId: number
-): Promise<string> {
+): Promise<{ entries: LogEntry[]; unavailable?: string }> {
   try {
     const { data } = await octokit.rest.actions.downloadJobLogsForWorkflowRun({
       owner,
       repo,
       job_id: jobId
     });
-    const buffer = normalizeLogBuffer(data);
-    return unzipAndConcatLogs(buffer);
+    const entries = extractLogEntries(normalizeLogBuffer(data));
+    return entries.length ? { entries } : { entries, unavailable: "GitHub returned an empty log" };
   } catch (error) {
     console.warn(`Failed to fetch logs for job ${jobId}:`, error);
-    return "";
-  }
-}
-
-function normalizeLogBuffer(data: unknown): Buffer {
-  if (Buffer.isBuffer(data)) return data;
-  if (data instanceof ArrayBuffer) return Buffer.from(new Uint8Array(data));
-  if (typeof data === "string") return Buffer.from(data, "utf-8");
-  return Buffer.from("");
-}
-
-function unzipAndConcatLogs(buffer: Buffer): string {
-  if (!buffer.length) return "";
-  const isZip = buffer[0] === 0x50 && buffer[1] === 0x4b;
-  if (!isZip) {
-    return buffer.toString("utf-8");
-  }
-
-  try {
-    const zip = new AdmZip(buffer);
-    const entries = zip.getEntries().filter(e => !e.isDirectory);
-    return entries
-      .sort((a, b) => a.entryName.localeCompare(b.entryName))
-      .map(entry => entry.getData().toString("utf-8"))
-      .join("\n");
-  } catch (error) {
-    console.warn("Failed to unzip logs:", error);
-    return buffer.toString("utf-8");
+    const status = (error as { status?: number }).status;
+    return {
+      entries: [],
+      unavailable: status
+        ? `log download failed with HTTP ${status}`
+        : `log download failed: ${error instanceof Error ? error.message : String(error)}`
+    };
   }
 }
 
 /**
- * Truncate logs to keep the most relevant (last) portion
- */
-function truncateLogs(logs: string, maxChars: number): string {
-  if (logs.length <= maxChars) return logs;
-  return "... [truncated] ...\n" + logs.slice(-maxChars);
-}
-
-/**
- * Get workflow run annotations (errors, warnings)
+ * Get check-run annotations (errors, warnings) for the given jobs.
+ * An Actions job's id is also the id of the check run it reports to.
  */
 export async function getRunAnnotations(
   octokit: Octokit,
   owner: string,
   repo: string,
-  runId: number,
-  ref: string
-): Promise<Array<{ level: string; message: string; path?: string; line?: number }>> {
-  try {
-    const { data: checkRuns } = await octokit.rest.checks.listForRef({
-      owner,
-      repo,
-      ref,
-      filter: "latest"
-    });
-
-    const annotations: Array<{ level: string; message: string; path?: string; line?: number }> = [];
-
-    for (const checkRun of checkRuns.check_runs) {
-      if (checkRun.output?.annotations_count && checkRun.output.annotations_count > 0) {
-        const { data: details } = await octokit.rest.checks.listAnnotations({
-          owner,
-          repo,
-          check_run_id: checkRun.id
+  jobs: Array<{ jobId: number; jobName: string }>
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+
+  for (const job of jobs) {
+    try {
+      const annotations = await octokit.paginate(octokit.rest.checks.listAnnotations, {
+        owner,
+        repo,
+        check_run_id: job.jobId,
+        per_page: 100
+      });
+
+      for (const annotation of annotations) {
+        diagnostics.push({
+          level: normalizeAnnotationLevel(annotation.annotation_level),
+          message: annotation.message || "",
+          title: annotation.title || undefined,
+          path: annotation.path || undefined,
+          line: annotation.start_line || undefined,
+          endLine: annotation.end_line || undefined,
+          jobName: job.jobName
         });
-
-        for (const annotation of details) {
-          annotations.push({
-            level: annotation.annotation_level || "warning",
-            message: annotation.message,
-            path: annotation.path,
-            line: annotation.start_line
-          });
-        }
       }
+    } catch (error) {
+      console.warn(`Failed to fetch annotations for job ${job.jobId}:`, error);
     }
-
-    return annotations;
-  } catch (error) {
-    console.warn("Failed to fetch annotations:", error);
-    return [];
   }
+
+  return diagnostics;
+}
+
+export function normalizeAnnotationLevel(level?: string | null): Diagnostic["level"] {
+  if (level === "failure" || level === "notice") return level;
+  return "warning";
 }
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { parseGoTestOutput } from "./go-test.js";
+
+describe("parseGoTestOutput", () => {
+  it("extracts failing tests and subtests from -v output", () => {
+    const failures = parseGoTestOutput(
+      [
+        "=== RUN   TestAdd",
+        "    math_test.go:12: add(1, 2) = 3, want 4",
+        "--- FAIL: TestAdd (0.00s)",
+        "=== RUN   TestSub",
+        "=== RUN   TestSub/negative",
+        "    math_test.go:25: sub(-1, 1) = 0, want -2",
+        "--- FAIL: TestSub (0.00s)",
+        "    --- FAIL: TestSub/negative (0.00s)",
+        "=== RUN   TestMul",
+        "--- PASS: TestMul (0.00s)",
+        "FAIL",
+        "FAIL\tgithub.com/acme/api/pkg/math\t0.012s"
+      ].join("\n")
+    );
+
+    expect(failures.map(f => f.id)).toEqual([
+      "github.com/acme/api/pkg/math.TestAdd",
+      "github.com/acme/api/pkg/math.TestSub/negative"
+    ]);
+    expect(failures[0]).toMatchObject({
+      source: "go",
+      suite: "github.com/acme/api/pkg/math",
+      name: "TestAdd",
+      file: "pkg/math/math_test.go",
+      line: 12,
+      message: "add(1, 2) = 3, want 4"
+    });
+  });
+
+  it("reads -json events and locates panics", () => {
+    const event = (Action: string, Test: string, Output?: string) =>
+      JSON.stringify({ Action, Package: "example.com/svc", Test, Output });
+    const failures = parseGoTestOutput(
+      [
+        event("run", "TestParse"),
+        event("output", "TestParse", "=== RUN   TestParse\n"),
+        event("output", "TestParse", "panic: runtime error: index out of range [3] with length 3 [recovered]\n"),
+        event("output", "TestParse", "goroutine 7 [running]:\n"),
+        event("output", "TestParse", "\t/usr/local/go/src/testing/testing.go:1545 +0x238\n"),
+        event("output", "TestParse", "\t/home/runner/work/svc/svc/parse_test.go:18 +0x1d\n"),
+        event("fail", "TestParse")
+      ].join("\n")
+    );
+
+    expect(failures).toEqual([
+      expect.objectContaining({
+        id: "example.com/svc.TestParse",
+        file: "parse_test.go",
+        line: 18,
+        message: "panic: runtime error: index out of range [3] with length 3",
+        frame: "/home/runner/work/svc/svc/parse_test.go:18 +0x1d"
+      })
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import type { TestFailure } from "./types.js";
+import { relativizeRunnerPath } from "../utils/paths.js";
+
+const RUN_PATTERN = /^=== (?:RUN|CONT)\s+(\S+)/;
+const FAIL_PATTERN = /^\s*--- FAIL: (\S+)/;
+const RESULT_PATTERN = /^\s*--- (?:PASS|SKIP): |^=== (?:PAUSE|NAME)\s/;
+const PACKAGE_PATTERN = /^(?:FAIL|ok)\s+(\S+)\s+(?:[\d.]+s|\(cached\)|\[)/;
+const LOG_PATTERN = /^\s*(\S+\.go):(\d+): (.*)$/;
+const PANIC_PATTERN = /^panic: (.*?)(?: \[recovered\])?$/;
+const FRAME_PATTERN = /^\s+(\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?$/;
+const GOROOT_PATTERN = /\/src\/(?:runtime|testing|reflect)\/|\/pkg\/mod\/|\/hostedtoolcache\//;
+
+interface GoTestEvent {
+  Action?: string;
+  Package?: string;
+  Test?: string;
+  Output?: string;
+}
+
+/**
+ * Parse failing tests out of `go test` output, plain, `-v` or `-json`
+ */
+export function parseGoTestOutput(logs: string): TestFailure[] {
+  const events = logs
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line.startsWith("{") && line.includes('"Action"'))
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as GoTestEvent];
+      } catch {
+        return [];
+      }
+    });
+
+  return events.length ? parseJsonEvents(events) : parseTextOutput(logs.split("\n"));
+}
+
+function parseJsonEvents(events: GoTestEvent[]): TestFailure[] {
+  const output = new Map<string, string[]>();
+  const failed: Array<{ pkg: string; test: string }> = [];
+
+  for (const event of events) {
+    if (!event.Test || !event.Package) continue;
+    const key = `${event.Package} ${event.Test}`;
+    if (event.Action === "output" && event.Output) {
+      output.set(key, [...(output.get(key) ?? []), ...event.Output.replace(/\n$/, "").split("\n")]);
+    } else if (event.Action === "fail") {
+      failed.push({ pkg: event.Package, test: event.Test });
+    }
+  }
+
+  return leafFailures(failed).map(({ pkg, test }) => toFailure(pkg, test, output.get(`${pkg} ${test}`) ?? []));
+}
+
+function parseTextOutput(lines: string[]): TestFailure[] {
+  const output = new Map<string, string[]>();
+  const failed: Array<{ pkg: string; test: string }> = [];
+  const pending: string[] = [];
+  let current: string | undefined;
+
+  for (const line of lines) {
+    const run = line.match(RUN_PATTERN);
+    const fail = line.match(FAIL_PATTERN);
+    const pkg = line.match(PACKAGE_PATTERN);
+
+    if (run || fail) {
+      current = (run ?? fail)![1];
+      if (fail) pending.push(current);
+    } else if (pkg) {
+      // Package result lines come after its tests
+      failed.push(...pending.splice(0).map(test => ({ pkg: pkg[1], test })));
+      current = undefined;
+    } else if (RESULT_PATTERN.test(line) || /^(?:FAIL|PASS|ok)$/.test(line.trim())) {
+      current = undefined;
+    } else if (current) {
+      output.set(current, [...(output.get(current) ?? []), line]);
+    }
+  }
+  failed.push(...pending.map(test => ({ pkg: "", test })));
+
+  return leafFailures(failed).map(({ pkg, test }) => toFailure(pkg, test, output.get(test) ?? []));
+}
+
+/**
+ * A parent test fails whenever a subtest does; report only the subtests
+ */
+function leafFailures(failed: Array<{ pkg: string; test: string }>): Array<{ pkg: string; test: string }> {
+  return failed.filter(
+    ({ pkg, test }) => !failed.some(other => other.pkg === pkg && other.test.startsWith(`${test}/`))
+  );
+}
+
+function toFailure(pkg: string, test: string, output: string[]): TestFailure {
+  const logLine = output.map(line => line.match(LOG_PATTERN)).find(Boolean);
+  const panic = output.map(line => line.match(PANIC_PATTERN)).find(Boolean);
+  const frames = output
+    .map(line => line.match(FRAME_PATTERN))
+    .filter((match): match is RegExpMatchArray => Boolean(match) && !GOROOT_PATTERN.test(match![1]));
+  const frame = frames.find(match => match[1].endsWith("_test.go")) ?? frames[0];
+
+  const file = logLine ? packageFile(pkg, logLine[1]) : frame ? relativizeRunnerPath(frame[1]) : undefined;
+  const line = logLine?.[2] ?? frame?.[2];
+
+  return {
+    source: "go",
+    id: pkg ? `${pkg}.${test}` : test,
+    suite: pkg || undefined,
+    name: test,
+    file,
+    line: line ? Number(line) : undefined,
+    message: panic ? `panic: ${panic[1]}` : logLine?.[3] ?? "(no message)",
+    frame: frame?.[0].trim(),
+    stack: output.length ? output.slice(0, 20).join("\n").trim() : undefined
+  };
+}
+
+/**
+ * `go test` prints bare file names. For packages under a
+ * `host/owner/repo` module path, prefix the package directory.
+ */
+function packageFile(pkg: string, file: string): string {
+  const segments = pkg.split("/");
+  if (!/\./.test(segments[0] ?? "") || segments.length <= 3) return file;
+  return [...segments.slice(3), file].join("/");
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { isJestJson, parseJestJson, parseJestOutput } from "./jest.js";
+
+const JEST_CONSOLE = `> jest --ci
+PASS src/string.test.ts
+FAIL src/math.test.ts (5.12 s)
+  ● math › add › adds two numbers
+
+    expect(received).toBe(expected) // Object.is equality
+
+    Expected: 4
+    Received: 3
+
+       9 |   describe("add", () => {
+      10 |     it("adds two numbers", () => {
+    > 11 |       expect(add(1, 2)).toBe(4);
+         |                         ^
+      12 |     });
+
+      at Object.<anonymous> (src/math.test.ts:11:25)
+
+  ● Console
+
+    console.log
+      debugging
+
+FAIL /home/runner/work/api/api/src/broken.test.ts
+  ● Test suite failed to run
+
+    Cannot find module './missing' from 'src/broken.test.ts'
+
+      at Resolver._throwModNotFoundError (node_modules/jest-resolve/build/resolver.js:427:11)
+      at Object.<anonymous> (src/broken.test.ts:1:1)
+
+Summary of all failing tests
+FAIL src/math.test.ts
+  ● math › add › adds two numbers
+
+    expect(received).toBe(expected) // Object.is equality
+
+Test Suites: 2 failed, 1 passed, 3 total
+Tests:       1 failed, 4 passed, 5 total`;
+
+const VITEST_CONSOLE = ` ❯ src/math.test.ts (2 tests | 1 failed) 5ms
+   × math > adds 3ms
+
+⎯⎯⎯⎯⎯⎯⎯ Failed Tests 1 ⎯⎯⎯⎯⎯⎯⎯
+
+ FAIL  src/math.test.ts > math > adds
+AssertionError: expected { a: 3 } to deeply equal { a: 4 }
+
+- Expected
++ Received
+
+  Object {
+-   "a": 4,
++   "a": 3,
+  }
+
+ ❯ src/math.test.ts:5:21
+      3| describe("math", () => {
+      4|   it("adds", () => {
+      5|     expect({ a: add(1, 2) }).toEqual({ a: 4 });
+       |                     ^
+
+⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/1]⎯
+
+ Test Files  1 failed (1)`;
+
+const JEST_JSON = JSON.stringify({
+  numFailedTests: 1,
+  testResults: [
+    {
+      name: "/home/runner/work/api/api/src/math.test.ts",
+      status: "failed",
+      assertionResults: [
+        { ancestorTitles: ["math"], title: "adds", status: "passed", failureMessages: [] },
+        {
+          ancestorTitles: ["math", "divide"],
+          title: "divides by zero",
+          status: "failed",
+          location: { line: 20, column: 5 },
+          failureMessages: [
+            "Error: \u001b[2mexpect(\u001b[22mreceived).toThrow()\n\nReceived function did not throw\n    at Object.<anonymous> (/home/runner/work/api/api/src/math.test.ts:21:7)"
+          ]
+        }
+      ]
+    }
+  ]
+});
+
+describe("parseJestOutput", () => {
+  it("extracts Jest failures with describe path, values and top frame", () => {
+    const failures = parseJestOutput(JEST_CONSOLE);
+
+    expect(failures).toHaveLength(2);
+    expect(failures[0]).toEqual({
+      source: "jest",
+      suite: "math › add",
+      describePath: ["math", "add"],
+      name: "adds two numbers",
+      file: "src/math.test.ts",
+      line: 11,
+      message: "expect(received).toBe(expected) // Object.is equality",
+      expected: "4",
+      received: "3",
+      diff: undefined,
+      frame: "at Object.<anonymous> (src/math.test.ts:11:25)"
+    });
+    expect(failures[1]).toMatchObject({
+      name: "Test suite failed to run",
+      file: "src/broken.test.ts",
+      line: 1,
+      message: "Cannot find module './missing' from 'src/broken.test.ts'",
+      frame: "at Object.<anonymous> (src/broken.test.ts:1:1)"
+    });
+  });
+
+  it("extracts Vitest failures with their diff", () => {
+    const [failure] = parseJestOutput(VITEST_CONSOLE);
+
+    expect(failure).toMatchObject({
+      source: "vitest",
+      suite: "math",
+      name: "adds",
+      file: "src/math.test.ts",
+      line: 5,
+      message: "AssertionError: expected { a: 3 } to deeply equal { a: 4 }",
+      frame: "❯ src/math.test.ts:5:21"
+    });
+    expect(failure.diff).toBe('- Expected\n+ Received\n\n  Object {\n-   "a": 4,\n+   "a": 3,\n  }');
+  });
+
+  it("prefers a --json report printed to the log", () => {
+    const failures = parseJestOutput(`> jest --json\n${JEST_JSON}\n`);
+
+    expect(isJestJson(JEST_JSON)).toBe(true);
+    expect(failures).toEqual(parseJestJson(JEST_JSON));
+    expect(failures).toEqual([
+      expect.objectContaining({
+        describePath: ["math", "divide"],
+        name: "divides by zero",
+        file: "src/math.test.ts",
+        line: 21,
+        message: "Error: expect(received).toThrow()"
+      })
+    ]);
+  });
+});
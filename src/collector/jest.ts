@@ -0,0 +1,186 @@
+import type { TestFailure } from "./types.js";
+import { relativizeRunnerPath } from "../utils/paths.js";
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+const JEST_FILE_PATTERN = /^\s*FAIL\s+(\S+?)(?:\s+\([^)]*\))?\s*$/;
+const JEST_TEST_PATTERN = /^\s*● (.+)$/;
+const VITEST_TEST_PATTERN = /^\s*FAIL\s+(\S+)\s+>\s+(.+)$/;
+const VITEST_SUITE_PATTERN = /^\s*FAIL\s+(\S+)\s+\[\s*\S+\s*\]\s*$/;
+const BLOCK_END_PATTERN = /^\s*(?:PASS|FAIL)\s|^\s*⎯{3,}|^\s*(?:Test Suites|Tests|Test Files|Snapshots|Time):|^\s*Summary of all failing tests/;
+const FRAME_PATTERNS = [/^at\s+(?:.*?\()?(\S+?):(\d+):\d+\)?$/, /^❯\s+(\S+?):(\d+):\d+$/];
+const CODE_FRAME_PATTERN = /^>?\s*\d+\s*\||^\|\s*\^/;
+
+interface JestAssertionResult {
+  ancestorTitles?: string[];
+  title?: string;
+  status?: string;
+  failureMessages?: string[];
+  location?: { line?: number } | null;
+}
+
+interface JestJsonReport {
+  testResults?: Array<{
+    name?: string;
+    status?: string;
+    message?: string;
+    assertionResults?: JestAssertionResult[];
+  }>;
+}
+
+/**
+ * Quick check for the Jest `--json` report (Vitest's json reporter writes the same shape)
+ */
+export function isJestJson(content: string): boolean {
+  return /"testResults"\s*:/.test(content) && /"numFailedTests"\s*:/.test(content);
+}
+
+/**
+ * Parse failing tests out of Jest or Vitest output in a job log. A `--json`
+ * report printed to stdout wins over the console reporter.
+ */
+export function parseJestOutput(logs: string): TestFailure[] {
+  const text = logs.replace(ANSI_PATTERN, "");
+  const jsonLine = text
+    .split("\n")
+    .map(line => line.trim())
+    .find(line => line.startsWith("{") && isJestJson(line));
+  const fromJson = jsonLine ? parseJestJson(jsonLine) : [];
+  return fromJson.length ? fromJson : parseConsoleOutput(text.split("\n"));
+}
+
+/**
+ * Parse a Jest or Vitest JSON report into structured test failures
+ */
+export function parseJestJson(content: string): TestFailure[] {
+  let report: JestJsonReport;
+  try {
+    report = JSON.parse(content) as JestJsonReport;
+  } catch {
+    return [];
+  }
+
+  const failures: TestFailure[] = [];
+  for (const result of report.testResults ?? []) {
+    const file = result.name ? relativizeRunnerPath(result.name) : undefined;
+    const failed = (result.assertionResults ?? []).filter(a => a.status === "failed");
+
+    if (!failed.length && result.status === "failed" && result.message) {
+      failures.push(toFailure("jest", file, [], "Test suite failed to run", result.message.split("\n")));
+      continue;
+    }
+
+    for (const assertion of failed) {
+      const failure = toFailure(
+        "jest",
+        file,
+        assertion.ancestorTitles ?? [],
+        assertion.title || "(unnamed test)",
+        (assertion.failureMessages ?? []).join("\n").replace(ANSI_PATTERN, "").split("\n")
+      );
+      failure.line ??= assertion.location?.line ?? undefined;
+      failures.push(failure);
+    }
+  }
+  return failures;
+}
+
+function parseConsoleOutput(lines: string[]): TestFailure[] {
+  const failures = new Map<string, TestFailure>();
+  let file: string | undefined;
+  let block: { source: TestFailure["source"]; file?: string; titles: string[]; body: string[] } | undefined;
+
+  const flush = () => {
+    if (!block) return;
+    const titles = block.titles;
+    const failure = toFailure(block.source, block.file, titles.slice(0, -1), titles[titles.length - 1], block.body);
+    // Jest repeats failures, shortened, in its closing summary
+    const key = `${failure.file}::${failure.suite}::${failure.name}`;
+    if (!failures.has(key)) failures.set(key, failure);
+    block = undefined;
+  };
+
+  for (const line of lines) {
+    const vitestTest = line.match(VITEST_TEST_PATTERN);
+    const vitestSuite = line.match(VITEST_SUITE_PATTERN);
+    const jestFile = line.match(JEST_FILE_PATTERN);
+    const jestTest = line.match(JEST_TEST_PATTERN);
+
+    if (vitestTest) {
+      flush();
+      block = { source: "vitest", file: relativizeRunnerPath(vitestTest[1]), titles: vitestTest[2].split(" > "), body: [] };
+    } else if (vitestSuite) {
+      flush();
+      block = { source: "vitest", file: relativizeRunnerPath(vitestSuite[1]), titles: ["Test suite failed to run"], body: [] };
+    } else if (jestFile) {
+      flush();
+      file = relativizeRunnerPath(jestFile[1]);
+    } else if (jestTest && jestTest[1].trim() !== "Console") {
+      flush();
+      block = { source: "jest", file, titles: jestTest[1].trim().split(" › "), body: [] };
+    } else if (BLOCK_END_PATTERN.test(line) || (jestTest && block)) {
+      flush();
+    } else if (block) {
+      block.body.push(line);
+    }
+  }
+  flush();
+
+  return [...failures.values()];
+}
+
+function toFailure(
+  source: TestFailure["source"],
+  file: string | undefined,
+  describePath: string[],
+  name: string,
+  body: string[]
+): TestFailure {
+  const indent = Math.min(...body.filter(l => l.trim()).map(l => l.length - l.trimStart().length));
+  const lines = body.map(l => l.slice(Number.isFinite(indent) ? indent : 0).trimEnd());
+  const trimmed = lines.map(l => l.trim());
+  const isDetail = (l: string) => !l || CODE_FRAME_PATTERN.test(l) || FRAME_PATTERNS.some(p => p.test(l));
+
+  // The message runs from the first line to the first blank line, code frame or stack frame
+  const start = trimmed.findIndex(Boolean);
+  const messageLines: string[] = [];
+  for (let i = Math.max(start, 0); i < trimmed.length && !isDetail(trimmed[i]); i += 1) {
+    messageLines.push(trimmed[i]);
+  }
+
+  const valueOf = (label: string) =>
+    trimmed.map(l => l.match(new RegExp(`^${label}(?: value)?:\\s+(.+)$`))?.[1]).find(Boolean);
+
+  const diffStart = trimmed.findIndex(l => /^- Expected\b/.test(l));
+  let diff: string | undefined;
+  if (diffStart >= 0) {
+    const diffLines: string[] = [];
+    for (let i = diffStart; i < lines.length; i += 1) {
+      if (trimmed[i] && isDetail(trimmed[i])) break;
+      diffLines.push(lines[i]);
+    }
+    diff = diffLines.join("\n").trim();
+  }
+
+  const frames = trimmed
+    .map(l => {
+      const match = FRAME_PATTERNS.map(p => l.match(p)).find(Boolean);
+      return match ? { text: l, file: relativizeRunnerPath(match[1]), line: Number(match[2]) } : undefined;
+    })
+    .filter((f): f is { text: string; file: string; line: number } => Boolean(f))
+    .filter(f => !/node_modules|^node:|^internal\//.test(f.file));
+  const inTestFile = frames.find(f => file && f.file === file);
+
+  return {
+    source,
+    suite: describePath.length ? describePath.join(" › ") : undefined,
+    describePath: describePath.length ? describePath : undefined,
+    name: name || "(unnamed test)",
+    file: file ?? frames[0]?.file,
+    line: inTestFile?.line ?? (file ? undefined : frames[0]?.line),
+    message: messageLines.join("\n") || "(no message)",
+    expected: valueOf("Expected"),
+    received: valueOf("Received"),
+    diff,
+    frame: frames[0]?.text
+  };
+}
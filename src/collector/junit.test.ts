@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { isJUnitXml, parseJUnitXml } from "./junit.js";
+import { matchesGlob } from "../utils/glob.js";
+
+const JEST_JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="jest tests" tests="3" failures="1" errors="1">
+  <testsuite name="math" file="src/math.test.ts" tests="3">
+    <testcase classname="math adds" name="adds numbers" time="0.01">
+      <failure message="expected 3 to be 4" type="AssertionError"><![CDATA[AssertionError: expected 3 to be 4
+    at Object.<anonymous> (src/math.test.ts:12:5)]]></failure>
+    </testcase>
+    <testcase classname="math" name="subtracts &amp; rounds" time="0.01"/>
+    <testcase classname="math" name="divides" file="src/divide.test.ts" line="8">
+      <error message="TypeError: x is undefined"/>
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+describe("parseJUnitXml", () => {
+  it("extracts failed and errored test cases", () => {
+    expect(isJUnitXml(JEST_JUNIT)).toBe(true);
+
+    const failures = parseJUnitXml(JEST_JUNIT);
+
+    expect(failures).toHaveLength(2);
+    expect(failures[0]).toMatchObject({
+      source: "junit",
+      suite: "math adds",
+      name: "adds numbers",
+      file: "src/math.test.ts",
+      message: "expected 3 to be 4"
+    });
+    expect(failures[0].stack).toContain("src/math.test.ts:12:5");
+    expect(failures[1]).toMatchObject({
+      name: "divides",
+      file: "src/divide.test.ts",
+      line: 8,
+      message: "TypeError: x is undefined"
+    });
+  });
+
+  it("returns nothing for passing reports", () => {
+    const xml = `<testsuite name="ok"><testcase name="works"></testcase></testsuite>`;
+    expect(parseJUnitXml(xml)).toEqual([]);
+  });
+});
+
+describe("matchesGlob", () => {
+  it("matches basenames and nested paths", () => {
+    expect(matchesGlob("junit-results", "*junit*")).toBe(true);
+    expect(matchesGlob("reports/junit.xml", "**/*.xml")).toBe(true);
+    expect(matchesGlob("junit.xml", "**/*.xml")).toBe(true);
+    expect(matchesGlob("reports/junit.json", "**/*.xml")).toBe(false);
+  });
+});
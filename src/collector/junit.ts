@@ -0,0 +1,96 @@
+import type { TestFailure } from "./types.js";
+
+const TAG_PATTERN = /<(\/?)(testsuites|testsuite|testcase)\b([^>]*?)(\/?)>/g;
+const FAILURE_PATTERN = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Quick check for JUnit-style XML (as written by jest-junit, pytest, surefire, go-junit-report…)
+ */
+export function isJUnitXml(content: string): boolean {
+  return /<testsuites?\b/.test(content);
+}
+
+/**
+ * Parse JUnit XML into structured test failures (failed and errored test cases).
+ */
+export function parseJUnitXml(xml: string): TestFailure[] {
+  const failures: TestFailure[] = [];
+  const suites: Array<{ name?: string; file?: string }> = [];
+
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(xml))) {
+    const [raw, closing, tag, attributeText, selfClosing] = match;
+
+    if (tag === "testsuites") continue;
+
+    if (tag === "testsuite") {
+      if (closing) {
+        suites.pop();
+      } else if (!selfClosing) {
+        const attrs = parseAttributes(attributeText);
+        suites.push({ name: attrs.name, file: attrs.file || attrs.filepath });
+      }
+      continue;
+    }
+
+    if (closing || selfClosing) continue;
+
+    // <testcase …> … </testcase>
+    const bodyStart = match.index + raw.length;
+    const bodyEnd = xml.indexOf("</testcase>", bodyStart);
+    if (bodyEnd < 0) continue;
+    const body = xml.slice(bodyStart, bodyEnd);
+    TAG_PATTERN.lastIndex = bodyEnd + "</testcase>".length;
+
+    const failure = body.match(FAILURE_PATTERN);
+    if (!failure) continue;
+
+    const attrs = parseAttributes(attributeText);
+    const failureAttrs = parseAttributes(failure[2]);
+    const details = decodeXml(failure[3] || "").trim();
+    const suite = suites[suites.length - 1];
+    const message = (failureAttrs.message || details.split("\n")[0] || failureAttrs.type || failure[1]).trim();
+
+    failures.push({
+      source: "junit",
+      suite: attrs.classname || suite?.name,
+      name: attrs.name || "(unnamed test)",
+      file: attrs.file || attrs.filepath || suite?.file,
+      line: toNumber(attrs.line || attrs.lineno),
+      message,
+      stack: details && details !== message ? details : undefined
+    });
+  }
+
+  return failures;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(text))) {
+    attrs[match[1]] = decodeXml(match[2] ?? match[3] ?? "");
+  }
+  return attrs;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(Number.parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+function toNumber(value?: string): number | undefined {
+  if (!value) return undefined;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
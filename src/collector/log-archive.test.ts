@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { attachStepLogs, extractLogEntries } from "./log-archive.js";
+import type { FailedStep } from "./types.js";
+
+// What the job log endpoint serves: one timestamped log for the whole job
+const jobLog = [
+  "2026-10-19T10:00:01.1234567Z Requested labels: ubuntu-latest",
+  "2026-10-19T10:00:01.2345678Z Job defined at: acme/api/.github/workflows/ci.yml@refs/heads/main",
+  "2026-10-19T10:00:05.0000000Z ##[group]Run npm run lint",
+  "2026-10-19T10:00:05.0100000Z npm run lint",
+  "2026-10-19T10:00:05.0200000Z ##[endgroup]",
+  "2026-10-19T10:00:09.5000000Z ✖ 0 problems",
+  "2026-10-19T10:00:11.0000000Z ##[group]Run npm test",
+  "2026-10-19T10:00:11.0100000Z npm test",
+  "2026-10-19T10:00:11.0200000Z ##[endgroup]",
+  "2026-10-19T10:00:14.4000000Z FAIL src/math.test.ts",
+  "    Expected: 4",
+  "2026-10-19T10:00:14.9000000Z ##[error]Process completed with exit code 1.",
+  "2026-10-19T10:00:16.0000000Z Post job cleanup."
+].join("\n");
+
+const step = (stepNumber: number, stepName: string, startedAt: string, completedAt: string): FailedStep => ({
+  stepName,
+  stepNumber,
+  conclusion: "failure",
+  startedAt,
+  completedAt
+});
+
+describe("attachStepLogs", () => {
+  it("slices a plain-text job log by each step's start and completion", () => {
+    const [tests] = attachStepLogs(
+      [step(4, "Run tests", "2026-10-19T10:00:11Z", "2026-10-19T10:00:14Z")],
+      extractLogEntries(Buffer.from(jobLog))
+    );
+
+    expect(tests.logs).toContain("##[group]Run npm test");
+    expect(tests.logs).toContain("    Expected: 4");
+    expect(tests.logs).toContain("exit code 1");
+    expect(tests.logs).not.toContain("npm run lint");
+    expect(tests.logs).not.toContain("Post job cleanup");
+  });
+
+  it("leaves steps without times or output unsliced", () => {
+    const steps = attachStepLogs(
+      [step(4, "Run tests", "", ""), step(5, "Upload", "2026-10-19T10:00:20Z", "2026-10-19T10:00:21Z")],
+      extractLogEntries(Buffer.from(jobLog))
+    );
+
+    expect(steps.map(s => s.logs)).toEqual([undefined, undefined]);
+  });
+});
@@ -0,0 +1,106 @@
+import AdmZip from "adm-zip";
+import { compactLogs } from "./log-compactor.js";
+import type { FailedStep, LogEntry } from "./types.js";
+
+// Character budget per job (and per step slice) kept after compaction
+export const JOB_LOG_BUDGET = 15000;
+
+// `2026-10-19T10:02:00.1234567Z`, fractions trimmed to milliseconds for Date.parse
+const TIMESTAMP_PATTERN = /^\uFEFF?(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(\.\d+)?Z/;
+
+/**
+ * Coerce an Octokit download payload into a Buffer
+ */
+export function normalizeLogBuffer(data: unknown): Buffer {
+  if (Buffer.isBuffer(data)) return data;
+  if (data instanceof ArrayBuffer) return Buffer.from(new Uint8Array(data));
+  if (typeof data === "string") return Buffer.from(data, "utf-8");
+  return Buffer.from("");
+}
+
+/**
+ * Read log entries from a zip archive (one entry per file, sorted by name).
+ * Plain-text buffers are returned as a single unnamed entry.
+ */
+export function extractLogEntries(buffer: Buffer): LogEntry[] {
+  if (!buffer.length) return [];
+  const isZip = buffer[0] === 0x50 && buffer[1] === 0x4b;
+  if (!isZip) {
+    return [{ name: "", content: buffer.toString("utf-8") }];
+  }
+
+  try {
+    const zip = new AdmZip(buffer);
+    return zip
+      .getEntries()
+      .filter(e => !e.isDirectory)
+      .sort((a, b) => a.entryName.localeCompare(b.entryName))
+      .map(entry => ({
+        name: entry.entryName,
+        content: entry.getData().toString("utf-8")
+      }));
+  } catch (error) {
+    console.warn("Failed to unzip logs:", error);
+    return [{ name: "", content: buffer.toString("utf-8") }];
+  }
+}
+
+/**
+ * Attach each step's log slice from archive entries named `<n>_<step name>.txt`.
+ * Entries are matched by step number first, then by step name. A plain-text
+ * job log (what the job log endpoint serves) is sliced by timestamp instead.
+ */
+export function attachStepLogs(steps: FailedStep[], entries: LogEntry[]): FailedStep[] {
+  const stepEntries = entries
+    .map(entry => ({ entry, match: entry.name.match(/(?:^|\/)(\d+)_([^/]*?)(?:\.txt)?$/) }))
+    .filter(({ match }) => match)
+    .map(({ entry, match }) => ({
+      number: Number.parseInt(match![1], 10),
+      name: match![2],
+      content: entry.content
+    }));
+
+  if (!stepEntries.length) {
+    return entries.length === 1 ? sliceStepLogs(steps, entries[0].content) : steps;
+  }
+
+  return steps.map(step => {
+    const byNumber = step.stepNumber !== undefined
+      ? stepEntries.find(e => e.number === step.stepNumber)
+      : undefined;
+    const slice = byNumber ?? stepEntries.find(e => e.name === sanitizeStepName(step.stepName));
+    return slice ? { ...step, logs: compactLogs(slice.content, JOB_LOG_BUDGET) } : step;
+  });
+}
+
+/**
+ * Give each step the lines of a timestamped job log written between its
+ * start and completion. Step times have whole-second precision, so lines
+ * in a shared boundary second go to both neighbouring steps.
+ */
+export function sliceStepLogs(steps: FailedStep[], jobLog: string): FailedStep[] {
+  const lines: Array<{ time: number; text: string }> = [];
+  let time = Number.NaN;
+  for (const text of jobLog.split("\n")) {
+    const stamp = text.match(TIMESTAMP_PATTERN);
+    // Untimestamped lines continue the line before them
+    if (stamp) time = Date.parse(`${stamp[1]}${stamp[2]?.slice(0, 4) ?? ""}Z`);
+    lines.push({ time, text });
+  }
+
+  return steps.map(step => {
+    const start = Math.floor(Date.parse(step.startedAt) / 1000) * 1000;
+    const end = Math.floor(Date.parse(step.completedAt) / 1000) * 1000 + 999;
+    if (Number.isNaN(start) || Number.isNaN(end)) return step;
+
+    const slice = lines.filter(line => line.time >= start && line.time <= end).map(line => line.text);
+    return slice.some(line => line.trim())
+      ? { ...step, logs: compactLogs(slice.join("\n"), JOB_LOG_BUDGET) }
+      : step;
+  });
+}
+
+// GitHub drops path separators and a few reserved characters from archive names.
+function sanitizeStepName(name: string): string {
+  return name.replace(/[\\/:*?"<>|]/g, "");
+}
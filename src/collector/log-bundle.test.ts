@@ -0,0 +1,98 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import { loadLogBundle, BUNDLE_METADATA_FILE } from "./log-bundle.js";
+
+function writeBundle(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "greenlit-bundle-"));
+  for (const [name, content] of Object.entries(files)) {
+    const fullPath = path.join(dir, name);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  }
+  return dir;
+}
+
+const metadata = {
+  run_id: 42,
+  repo: "owner/repo",
+  head_sha: "abc123",
+  head_branch: "main",
+  workflow_name: "CI",
+  jobs: [
+    {
+      id: 1,
+      name: "lint",
+      conclusion: "success",
+      steps: [{ name: "Run lint", number: 2, conclusion: "success" }]
+    },
+    {
+      id: 2,
+      name: "test",
+      conclusion: "failure",
+      steps: [
+        { name: "Set up job", number: 1, conclusion: "success" },
+        { name: "Run tests", number: 2, conclusion: "failure" }
+      ]
+    }
+  ]
+};
+
+describe("loadLogBundle", () => {
+  it("builds a run context from an extracted run log directory", () => {
+    const dir = writeBundle({
+      [BUNDLE_METADATA_FILE]: JSON.stringify(metadata),
+      "lint/2_Run lint.txt": "lint ok",
+      "test/1_Set up job.txt": "setting up",
+      "test/2_Run tests.txt": "Error: expected 1 to be 2"
+    });
+
+    const context = loadLogBundle(dir);
+
+    expect(context.runId).toBe(42);
+    expect(context.repo).toEqual({ owner: "owner", repo: "repo" });
+    expect(context.failedJobs).toHaveLength(1);
+    expect(context.failedJobs[0].jobName).toBe("test");
+    expect(context.failedJobs[0].failedSteps.map(s => s.stepName)).toEqual(["Run tests"]);
+    expect(context.failedJobs[0].logs).toContain("Error: expected 1 to be 2");
+    expect(context.failedJobs[0].logs).not.toContain("lint ok");
+    expect(context.failedJobs[0].failedSteps[0].logs).toBe("Error: expected 1 to be 2");
+    expect(context.changeBase).toBeUndefined();
+  });
+
+  it("diffs against the pull request base when the metadata names one", () => {
+    const dir = writeBundle({
+      [BUNDLE_METADATA_FILE]: JSON.stringify({ ...metadata, pull_requests: [{ number: 7, base: { sha: "base999" } }] }),
+      "test/2_Run tests.txt": "Error: expected 1 to be 2"
+    });
+
+    expect(loadLogBundle(dir).changeBase).toEqual({ sha: "base999", source: "pull_request", pullNumber: 7 });
+  });
+
+  it("falls back to top-level job logs and explicit metadata paths", () => {
+    const dir = writeBundle({
+      "0_lint.txt": "lint ok",
+      "1_test.txt": "FAIL src/math.test.ts"
+    });
+    const metadataPath = path.join(dir, "..", `${path.basename(dir)}-run.json`);
+    fs.writeFileSync(metadataPath, JSON.stringify(metadata));
+
+    const context = loadLogBundle(dir, { metadataPath });
+
+    expect(context.failedJobs[0].logs).toBe("FAIL src/math.test.ts");
+    expect(context.failedJobs[0].failedSteps[0].logs).toBeUndefined();
+  });
+
+  it("rejects bundles without metadata", () => {
+    const dir = writeBundle({ "1_test.txt": "FAIL" });
+
+    expect(() => loadLogBundle(dir)).toThrow(/greenlit-run.json/);
+  });
+
+  it("names the metadata file when it is not valid JSON", () => {
+    const dir = writeBundle({ "1_test.txt": "FAIL", [BUNDLE_METADATA_FILE]: "{ truncated" });
+
+    expect(() => loadLogBundle(dir)).toThrow(/^Invalid bundle metadata greenlit-run\.json: /);
+  });
+});
@@ -0,0 +1,250 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { normalizeAnnotationLevel } from "./github-logs.js";
+import { attachStepLogs, extractLogEntries, sliceStepLogs, JOB_LOG_BUDGET } from "./log-archive.js";
+import { compactLogs } from "./log-compactor.js";
+import { parseMatrixJobName } from "./matrix.js";
+import { summarizeAttempt } from "./attempts.js";
+import { parseTestReportEntries } from "./test-reports.js";
+import type { TestReportsConfig } from "../config/greenlit.config.js";
+import type { WorkflowRunContext, FailedJob, FailedStep, LogEntry } from "./types.js";
+
+export const BUNDLE_METADATA_FILE = "greenlit-run.json";
+
+// Field names mirror the GitHub REST API so `gh api` output can be pasted in.
+const BundleStepSchema = z.object({
+  name: z.string(),
+  number: z.number().optional(),
+  conclusion: z.string().nullable().default(null),
+  started_at: z.string().nullable().default(null),
+  completed_at: z.string().nullable().default(null)
+});
+
+const BundleJobSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  conclusion: z.string().nullable().default(null),
+  steps: z.array(BundleStepSchema).default([])
+});
+
+const BundleAnnotationSchema = z.object({
+  path: z.string().nullable().default(null),
+  start_line: z.number().nullable().default(null),
+  end_line: z.number().nullable().default(null),
+  annotation_level: z.string().nullable().default(null),
+  title: z.string().nullable().default(null),
+  message: z.string(),
+  job_name: z.string().optional()
+});
+
+const BundleMetadataSchema = z.object({
+  run_id: z.number(),
+  repo: z.string().regex(/^[^/\s]+\/[^/\s]+$/, "expected owner/repo"),
+  head_sha: z.string(),
+  head_branch: z.string().nullable().default(null),
+  workflow_name: z.string().nullable().default(null),
+  path: z.string().optional(),
+  run_attempt: z.number().default(1),
+  jobs: z.array(BundleJobSchema),
+  previous_attempts: z
+    .array(z.object({ run_attempt: z.number(), jobs: z.array(BundleJobSchema) }))
+    .default([]),
+  annotations: z.array(BundleAnnotationSchema).default([]),
+  // The run's pull request, whose base the changed files are diffed against
+  pull_requests: z
+    .array(
+      z.object({
+        number: z.number(),
+        base: z.object({ sha: z.string() }),
+        user: z.object({ login: z.string() }).nullable().optional()
+      })
+    )
+    .default([])
+});
+
+export type BundleMetadata = z.infer<typeof BundleMetadataSchema>;
+
+/**
+ * Build a workflow run context from a downloaded log bundle.
+ *
+ * A bundle is either the zip GitHub serves for run/job logs or a directory
+ * holding the extracted log files (and/or the zip). Run metadata is read from
+ * `greenlit-run.json` inside the bundle unless `metadataPath` is given.
+ */
+export function loadLogBundle(
+  bundlePath: string,
+  options: { metadataPath?: string; testReports?: TestReportsConfig } = {}
+): WorkflowRunContext {
+  if (!fs.existsSync(bundlePath)) {
+    throw new Error(`Log bundle not found: ${bundlePath}`);
+  }
+
+  const entries = fs.statSync(bundlePath).isDirectory()
+    ? readDirectoryEntries(bundlePath)
+    : extractLogEntries(fs.readFileSync(bundlePath));
+
+  const metadata = readBundleMetadata(entries, options.metadataPath);
+  const logEntries = entries.filter(
+    e => path.posix.basename(e.name) !== BUNDLE_METADATA_FILE && !e.name.endsWith(".xml")
+  );
+  const [owner, repo] = metadata.repo.split("/");
+  const pullRequest = metadata.pull_requests[0];
+  const failedJobs: FailedJob[] = [];
+
+  for (const job of metadata.jobs.filter(j => j.conclusion === "failure")) {
+    const jobEntries = selectJobEntries(logEntries, job.name, metadata.jobs.length);
+    const steps: FailedStep[] = job.steps
+      .filter(s => s.conclusion === "failure")
+      .map(s => ({
+        stepName: s.name,
+        stepNumber: s.number,
+        conclusion: s.conclusion || "unknown",
+        startedAt: s.started_at || "",
+        completedAt: s.completed_at || ""
+      }));
+    // A single entry is the whole job log, not a per-step slice: cut it by timestamp
+    const failedSteps = jobEntries.length > 1
+      ? attachStepLogs(steps, jobEntries)
+      : sliceStepLogs(steps, jobEntries[0]?.content ?? "");
+
+    failedJobs.push({
+      jobId: job.id,
+      jobName: job.name,
+      failedSteps,
+      logs: compactLogs(jobEntries.map(e => e.content).join("\n"), JOB_LOG_BUDGET),
+      matrix: parseMatrixJobName(job.name)
+    });
+  }
+
+  return {
+    runId: metadata.run_id,
+    repo: { owner, repo },
+    headSha: metadata.head_sha,
+    headBranch: metadata.head_branch || "unknown",
+    workflowName: metadata.workflow_name || "CI",
+    workflowPath: metadata.path,
+    failedJobs,
+    jobs: metadata.jobs.map(job => ({
+      jobId: job.id,
+      jobName: job.name,
+      conclusion: job.conclusion || "unknown",
+      matrix: parseMatrixJobName(job.name)
+    })),
+    annotations: metadata.annotations.map(annotation => ({
+      level: normalizeAnnotationLevel(annotation.annotation_level),
+      message: annotation.message,
+      title: annotation.title || undefined,
+      path: annotation.path || undefined,
+      line: annotation.start_line || undefined,
+      endLine: annotation.end_line || undefined,
+      jobName: annotation.job_name
+    })),
+    runAttempt: metadata.run_attempt,
+    attempts: [
+      ...metadata.previous_attempts.map(a => summarizeAttempt(a.run_attempt, a.jobs)),
+      summarizeAttempt(metadata.run_attempt, metadata.jobs)
+    ],
+    testFailures: options.testReports?.enabled
+      ? parseTestReportEntries(entries, options.testReports)
+      : [],
+    changeBase: pullRequest
+      ? {
+          sha: pullRequest.base.sha,
+          source: "pull_request",
+          pullNumber: pullRequest.number,
+          author: pullRequest.user?.login
+        }
+      : undefined
+  };
+}
+
+function readDirectoryEntries(root: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+
+  const walk = (dir: string) => {
+    for (const dirent of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, dirent.name);
+      if (dirent.isDirectory()) {
+        walk(fullPath);
+        continue;
+      }
+      if (dirent.name.endsWith(".zip")) {
+        entries.push(...extractLogEntries(fs.readFileSync(fullPath)));
+        continue;
+      }
+      if (/\.(txt|log|xml)$/.test(dirent.name) || dirent.name === BUNDLE_METADATA_FILE) {
+        entries.push({
+          name: path.relative(root, fullPath).split(path.sep).join("/"),
+          content: fs.readFileSync(fullPath, "utf-8")
+        });
+      }
+    }
+  };
+
+  walk(root);
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function readBundleMetadata(entries: LogEntry[], metadataPath?: string): BundleMetadata {
+  let raw: string | undefined;
+  let source = metadataPath ?? BUNDLE_METADATA_FILE;
+  if (metadataPath) {
+    if (!fs.existsSync(metadataPath)) {
+      throw new Error(`Bundle metadata not found: ${metadataPath}`);
+    }
+    raw = fs.readFileSync(metadataPath, "utf-8");
+  } else {
+    const entry = entries.find(e => path.posix.basename(e.name) === BUNDLE_METADATA_FILE);
+    raw = entry?.content;
+    source = entry?.name ?? source;
+  }
+
+  if (!raw) {
+    throw new Error(`Log bundle is missing ${BUNDLE_METADATA_FILE} (pass --bundle-metadata)`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid bundle metadata ${source}: ${(error as Error).message}`);
+  }
+
+  const result = BundleMetadataSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.errors.map(err => `${err.path.join(".")}: ${err.message}`);
+    throw new Error(`Invalid bundle metadata ${source}: ${issues.join("; ")}`);
+  }
+  return result.data;
+}
+
+/**
+ * Pick the log entries that belong to a job.
+ *
+ * Run log archives contain `<job>/<n>_<step>.txt` per step plus a top-level
+ * `<n>_<job>.txt` with the whole job. A job log archive holds only the job.
+ */
+function selectJobEntries(entries: LogEntry[], jobName: string, jobCount: number): LogEntry[] {
+  const key = normalizeEntryName(jobName);
+
+  const stepEntries = entries.filter(e => {
+    const dir = path.posix.dirname(e.name);
+    return dir !== "." && normalizeEntryName(path.posix.basename(dir)) === key;
+  });
+  if (stepEntries.length) return stepEntries;
+
+  const jobLog = entries.find(e => {
+    if (path.posix.dirname(e.name) !== ".") return false;
+    const base = path.posix.basename(e.name).replace(/\.(txt|log)$/, "").replace(/^\d+_/, "");
+    return normalizeEntryName(base) === key;
+  });
+  if (jobLog) return [jobLog];
+
+  return jobCount === 1 ? entries : [];
+}
+
+// GitHub strips characters such as `/` and `:` from job names in archive paths.
+function normalizeEntryName(name: string): string {
+  return name.replace(/[^\w\s().,-]/g, "").replace(/\s+/g, " ").trim().toLowerCase();
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { compactLogs, elisionMarker } from "./log-compactor.js";
+
+function noise(count: number, prefix = "ok"): string[] {
+  return Array.from({ length: count }, (_, i) => `${prefix} test case ${i} passed in ${i % 7}ms`);
+}
+
+describe("compactLogs", () => {
+  it("returns logs unchanged when within budget", () => {
+    expect(compactLogs("short log", 100)).toBe("short log");
+  });
+
+  it("keeps the first failure even when it is far from the tail", () => {
+    const logs = [
+      "##[group]Run npm test",
+      "npm test",
+      "##[endgroup]",
+      ...noise(200, "a"),
+      "FAIL src/math.test.ts > adds numbers",
+      "AssertionError: expected 3 to be 4",
+      ...noise(400, "b"),
+      "Tests  1 failed | 600 passed"
+    ].join("\n");
+
+    const compacted = compactLogs(logs, 4000);
+
+    expect(compacted.length).toBeLessThanOrEqual(4000);
+    expect(compacted).toContain("##[group]Run npm test");
+    expect(compacted).toContain("AssertionError: expected 3 to be 4");
+    expect(compacted).toContain("Tests  1 failed | 600 passed");
+    expect(compacted).toMatch(/\[… \d+ lines elided …\]/);
+  });
+
+  it("collapses repeated lines", () => {
+    const logs = [
+      ...Array.from({ length: 50 }, (_, i) => `Retrying request (attempt ${i})`),
+      "Error: request failed",
+      ...noise(300)
+    ].join("\n");
+
+    const compacted = compactLogs(logs, 2000);
+
+    expect(compacted).toContain(elisionMarker(47));
+    expect(compacted).toContain("Error: request failed");
+  });
+
+  it("counts only dropped source lines in elision markers", () => {
+    const source = [
+      ...Array.from({ length: 50 }, (_, i) => `Retrying request (attempt ${i})`),
+      ...Array.from({ length: 300 }, (_, i) => `step ${i % 2 ? "odd" : "even"} done`),
+      "Error: request failed",
+      ...Array.from({ length: 300 }, (_, i) => `cleanup ${i % 2 ? "odd" : "even"} done`)
+    ];
+
+    const compacted = compactLogs(source.join("\n"), 1500, { tailLines: 5 }).split("\n");
+    const elided = compacted
+      .map(line => /^\[… (\d+) lines? elided …\]$/.exec(line))
+      .reduce((total, match) => total + (match ? Number(match[1]) : 0), 0);
+    const kept = compacted.filter(line => !line.startsWith("[… ")).length;
+
+    expect(compacted).toContain("Error: request failed");
+    expect(compacted.join("\n").length).toBeLessThanOrEqual(1500);
+    expect(elided + kept).toBe(source.length);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Budgeted log compaction.
+ *
+ * Keeps the lines that matter for triage (windows around errors, the failing
+ * command's echo and the final summary) and replaces everything else with
+ * explicit `[… N lines elided …]` markers, instead of blindly keeping the tail.
+ */
+
+export interface CompactOptions {
+  contextBefore?: number;   // Lines kept before each error line
+  contextAfter?: number;    // Lines kept after each error line
+  tailLines?: number;       // Final summary lines always kept
+  maxRepeats?: number;      // Identical consecutive lines kept before collapsing
+}
+
+interface Window {
+  start: number;            // Inclusive
+  end: number;              // Exclusive
+}
+
+const ERROR_LINE_PATTERN =
+  /##\[error\]|::error|\berror\b|\bfail(?:ed|ure)?\b|✕|✗|×|\bpanic(?:ked)?\b|traceback|exception|assertion/i;
+const COMMAND_ECHO_PATTERN = /##\[group\]Run |\[command\]|^\s*(?:\$|>)\s+\S/;
+const TIMESTAMP_PREFIX = /^\uFEFF?\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z\s?/;
+
+export function elisionMarker(count: number): string {
+  return `[… ${count} line${count === 1 ? "" : "s"} elided …]`;
+}
+
+/**
+ * Compact logs to at most `maxChars` characters.
+ */
+export function compactLogs(logs: string, maxChars: number, options: CompactOptions = {}): string {
+  if (logs.length <= maxChars) return logs;
+
+  const contextBefore = options.contextBefore ?? 5;
+  const contextAfter = options.contextAfter ?? 10;
+  const tailLines = options.tailLines ?? 20;
+  const maxRepeats = options.maxRepeats ?? 3;
+
+  const { lines, sourceCounts } = collapseRepeats(logs.split("\n"), maxRepeats);
+
+  // Windows in priority order: summary tail, command echoes, then errors
+  // in order of appearance so the first real failure survives the budget.
+  const candidates: Window[] = [{ start: Math.max(lines.length - tailLines, 0), end: lines.length }];
+  lines.forEach((line, index) => {
+    if (COMMAND_ECHO_PATTERN.test(stripTimestamp(line))) {
+      candidates.push({ start: index, end: Math.min(index + 2, lines.length) });
+    }
+  });
+  lines.forEach((line, index) => {
+    if (ERROR_LINE_PATTERN.test(stripTimestamp(line))) {
+      candidates.push({
+        start: Math.max(index - contextBefore, 0),
+        end: Math.min(index + contextAfter + 1, lines.length)
+      });
+    }
+  });
+
+  // Prefix sums of line lengths and of the source lines each line stands for,
+  // so a window or a gap is measured without rendering
+  const offsets = [0];
+  const sources = [0];
+  lines.forEach((line, index) => {
+    offsets.push(offsets[index] + line.length + 1);
+    sources.push(sources[index] + sourceCounts[index]);
+  });
+  const layout = { offsets, sources, lineCount: lines.length };
+
+  const selected: Window[] = [];
+  let size = gapSize(layout, 0, lines.length);
+  for (const candidate of candidates) {
+    const change = insertWindow(layout, selected, candidate);
+    if (size + change.delta - 1 > maxChars) continue;
+    selected.splice(change.index, change.removed, change.window);
+    size += change.delta;
+  }
+
+  if (selected.length) return renderWindows(lines, layout, selected);
+
+  // Not even the summary tail fits: fall back to the raw tail
+  const tail = logs.slice(-Math.max(maxChars - 40, 0));
+  return `${elisionMarker(logs.slice(0, logs.length - tail.length).split("\n").length)}\n${tail}`;
+}
+
+interface Layout {
+  offsets: number[];        // Prefix sums of rendered line lengths
+  sources: number[];        // Prefix sums of source lines behind each line
+  lineCount: number;
+}
+
+interface WindowChange {
+  index: number;            // First selected window replaced
+  removed: number;          // Selected windows merged into the new one
+  window: Window;
+  delta: number;            // Change in rendered size
+}
+
+/**
+ * Work out how merging `candidate` into the sorted `selected` windows changes
+ * the rendered size, touching only the windows it overlaps.
+ */
+function insertWindow(layout: Layout, selected: Window[], candidate: Window): WindowChange {
+  let low = 0;
+  let high = selected.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (selected[middle].end < candidate.start) low = middle + 1;
+    else high = middle;
+  }
+
+  const index = low;
+  let last = index;
+  while (last < selected.length && selected[last].start <= candidate.end) last += 1;
+
+  const window = { ...candidate };
+  const before = index > 0 ? selected[index - 1].end : 0;
+  const after = last < selected.length ? selected[last].start : layout.lineCount;
+
+  let previous = before;
+  let oldSize = 0;
+  for (let i = index; i < last; i += 1) {
+    oldSize += gapSize(layout, previous, selected[i].start) + windowSize(layout, selected[i]);
+    previous = selected[i].end;
+    window.start = Math.min(window.start, selected[i].start);
+    window.end = Math.max(window.end, selected[i].end);
+  }
+  oldSize += gapSize(layout, previous, after);
+
+  const newSize =
+    gapSize(layout, before, window.start) + windowSize(layout, window) + gapSize(layout, window.end, after);
+  return { index, removed: last - index, window, delta: newSize - oldSize };
+}
+
+function windowSize(layout: Layout, window: Window): number {
+  return layout.offsets[window.end] - layout.offsets[window.start];
+}
+
+function gapSize(layout: Layout, start: number, end: number): number {
+  if (start >= end) return 0;
+  return elisionMarker(layout.sources[end] - layout.sources[start]).length + 1;
+}
+
+/**
+ * Collapse runs of near-identical lines, recording how many source lines each
+ * kept line stands for so later markers count source lines, not markers.
+ */
+function collapseRepeats(lines: string[], maxRepeats: number): { lines: string[]; sourceCounts: number[] } {
+  const result: string[] = [];
+  const sourceCounts: number[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const key = normalizeForRepeat(lines[index]);
+    let runEnd = index + 1;
+    while (runEnd < lines.length && normalizeForRepeat(lines[runEnd]) === key) {
+      runEnd += 1;
+    }
+
+    const runLength = runEnd - index;
+    const kept = runLength > maxRepeats && key ? maxRepeats : runLength;
+    for (let i = index; i < index + kept; i += 1) {
+      result.push(lines[i]);
+      sourceCounts.push(1);
+    }
+    if (kept < runLength) {
+      result.push(elisionMarker(runLength - kept));
+      sourceCounts.push(runLength - kept);
+    }
+    index = runEnd;
+  }
+
+  return { lines: result, sourceCounts };
+}
+
+function normalizeForRepeat(line: string): string {
+  return stripTimestamp(line).replace(/\d+/g, "N").trim();
+}
+
+function stripTimestamp(line: string): string {
+  return line.replace(TIMESTAMP_PREFIX, "");
+}
+
+function renderWindows(lines: string[], layout: Layout, windows: Window[]): string {
+  const output: string[] = [];
+  let cursor = 0;
+
+  for (const window of windows) {
+    if (window.start > cursor) {
+      output.push(elisionMarker(layout.sources[window.start] - layout.sources[cursor]));
+    }
+    for (let i = window.start; i < window.end; i += 1) output.push(lines[i]);
+    cursor = window.end;
+  }
+
+  if (cursor < lines.length) {
+    output.push(elisionMarker(layout.sources[lines.length] - layout.sources[cursor]));
+  }
+
+  return output.join("\n");
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { parseActionsLog, renderLogMessages, findExplicitErrors, stripAnsi } from "./log-parser.js";
+import { buildEvidencePack } from "./evidence.js";
+
+const RAW_LOG = [
+  "2025-01-01T10:00:00.0000000Z ##[group]Run npm test",
+  "2025-01-01T10:00:00.1000000Z \u001b[36;1mnpm test\u001b[0m",
+  "2025-01-01T10:00:00.2000000Z ##[endgroup]",
+  "2025-01-01T10:00:01.0000000Z \u001b[31m FAIL \u001b[39m src/math.test.ts",
+  "2025-01-01T10:00:01.1000000Z ::error file=src/math.ts,line=12,col=3,title=Assertion::expected 3 to be 4",
+  "2025-01-01T10:00:02.0000000Z ##[error]Process completed with exit code 1."
+].join("\n");
+
+describe("parseActionsLog", () => {
+  it("strips timestamps and ANSI codes and tracks groups", () => {
+    const entries = parseActionsLog(RAW_LOG);
+
+    expect(entries[0]).toMatchObject({
+      timestamp: "2025-01-01T10:00:00.1000000Z",
+      groups: ["Run npm test"],
+      message: "npm test",
+      severity: "info"
+    });
+    expect(entries[1].groups).toEqual([]);
+    expect(entries[1].message).toBe(" FAIL  src/math.test.ts");
+    expect(renderLogMessages(entries)).not.toMatch(/2025-01-01|\u001b|##\[/);
+  });
+
+  it("parses workflow command annotations", () => {
+    const entries = parseActionsLog(RAW_LOG);
+
+    expect(entries[2]).toMatchObject({
+      severity: "error",
+      message: "expected 3 to be 4",
+      annotation: { file: "src/math.ts", line: 12, column: 3, title: "Assertion" }
+    });
+  });
+
+  it("ranks annotated errors first and skips the runner exit-code line", () => {
+    const errors = findExplicitErrors(parseActionsLog(RAW_LOG));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toBe("expected 3 to be 4");
+  });
+
+  it("removes color codes", () => {
+    expect(stripAnsi("\u001b[1m\u001b[31merror\u001b[39m\u001b[22m")).toBe("error");
+  });
+});
+
+describe("buildEvidencePack", () => {
+  it("prefers annotation locations over regex matches", () => {
+    const entries = parseActionsLog(`at helper (src/other.ts:99:1)\n${RAW_LOG}`);
+
+    const evidence = buildEvidencePack(entries, [
+      {
+        jobId: 1,
+        jobName: "test",
+        failedSteps: [{ stepName: "Run tests", conclusion: "failure", startedAt: "", completedAt: "" }],
+        logs: ""
+      }
+    ]);
+
+    expect(evidence.file).toBe("src/math.ts");
+    expect(evidence.line).toBe("12");
+    expect(evidence.job).toBe("test");
+    expect(evidence.excerpt).toContain("expected 3 to be 4");
+  });
+
+  it("prefers check-run annotations over log annotations", () => {
+    const entries = parseActionsLog(RAW_LOG);
+
+    const evidence = buildEvidencePack(entries, [], [
+      { level: "failure", message: "Process completed with exit code 1.", path: ".github" },
+      { level: "warning", message: "Unused variable", path: "src/util.ts", line: 3 },
+      { level: "failure", message: "Type 'string' is not assignable", path: "src/types.ts", line: 7 }
+    ]);
+
+    expect(evidence.file).toBe("src/types.ts");
+    expect(evidence.line).toBe("7");
+    expect(evidence.excerpt).toBe("Type 'string' is not assignable");
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Parser for raw GitHub Actions job logs
+ */
+
+export type LogSeverity = "error" | "warning" | "notice" | "debug" | "command" | "info";
+
+export interface LogAnnotation {
+  file?: string;
+  line?: number;
+  column?: number;
+  title?: string;
+}
+
+export interface LogEntryLine {
+  lineNumber: number;         // 1-based line in the raw log
+  timestamp?: string;
+  groups: string[];           // Enclosing ##[group] titles, outermost first
+  severity: LogSeverity;
+  message: string;            // Text with timestamp, ANSI codes and markers removed
+  annotation?: LogAnnotation; // Present for ::error/::warning workflow commands
+}
+
+const TIMESTAMP_PATTERN = /^\uFEFF?(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z)\s?/;
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[ -/]*[@-~]/g;
+const MARKER_PATTERN = /^##\[(group|endgroup|error|warning|notice|debug|command|section)\](.*)$/i;
+const WORKFLOW_COMMAND_PATTERN = /^::(error|warning|notice|debug|group|endgroup)(?:\s+([^:]*))?::(.*)$/i;
+
+// Runner boilerplate that marks a failed step but carries no diagnosis
+const GENERIC_ERROR_PATTERN = /^Process completed with exit code \d+\.?$/i;
+
+/**
+ * Remove ANSI color/control sequences
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, "");
+}
+
+/**
+ * Parse a job log into typed entries. Group markers are folded into the
+ * `groups` path of the lines they enclose and are not returned themselves.
+ */
+export function parseActionsLog(raw: string): LogEntryLine[] {
+  const entries: LogEntryLine[] = [];
+  const groups: string[] = [];
+  const lines = raw.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i += 1) {
+    let text = lines[i];
+    let timestamp: string | undefined;
+
+    const timestampMatch = text.match(TIMESTAMP_PATTERN);
+    if (timestampMatch) {
+      timestamp = timestampMatch[1];
+      text = text.slice(timestampMatch[0].length);
+    }
+    text = stripAnsi(text);
+
+    let severity: LogSeverity = "info";
+    let annotation: LogAnnotation | undefined;
+
+    const marker = text.match(MARKER_PATTERN);
+    const command = marker ? null : text.trim().match(WORKFLOW_COMMAND_PATTERN);
+    const kind = (marker?.[1] || command?.[1])?.toLowerCase();
+
+    if (kind === "group") {
+      groups.push((marker ? marker[2] : command![3]).trim());
+      continue;
+    }
+    if (kind === "endgroup") {
+      groups.pop();
+      continue;
+    }
+
+    if (marker) {
+      severity = kind === "section" ? "info" : (kind as LogSeverity);
+      text = marker[2];
+    } else if (command) {
+      severity = kind as LogSeverity;
+      annotation = parseAnnotationProperties(command[2] || "");
+      text = decodeCommandData(command[3]);
+    }
+
+    entries.push({
+      lineNumber: i + 1,
+      timestamp,
+      groups: [...groups],
+      severity,
+      message: text,
+      annotation
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Render parsed entries back to plain text (no timestamps, colors or markers)
+ */
+export function renderLogMessages(entries: LogEntryLine[]): string {
+  return entries.map(e => e.message).join("\n");
+}
+
+/**
+ * Explicit error lines emitted by tools or the runner, most specific first:
+ * annotations with a file location, then other `::error`/`##[error]` lines.
+ * The runner's generic "Process completed with exit code" line is skipped.
+ */
+export function findExplicitErrors(entries: LogEntryLine[]): LogEntryLine[] {
+  const errors = entries.filter(
+    e => e.severity === "error" && e.message.trim() && !GENERIC_ERROR_PATTERN.test(e.message.trim())
+  );
+  return [
+    ...errors.filter(e => e.annotation?.file),
+    ...errors.filter(e => !e.annotation?.file)
+  ];
+}
+
+function parseAnnotationProperties(properties: string): LogAnnotation | undefined {
+  if (!properties.trim()) return undefined;
+
+  const annotation: LogAnnotation = {};
+  for (const pair of properties.split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator < 0) continue;
+    const key = pair.slice(0, separator).trim();
+    const value = decodeCommandProperty(pair.slice(separator + 1).trim());
+    switch (key) {
+      case "file":
+        annotation.file = value;
+        break;
+      case "line":
+        annotation.line = toNumber(value);
+        break;
+      case "col":
+        annotation.column = toNumber(value);
+        break;
+      case "title":
+        annotation.title = value;
+        break;
+    }
+  }
+
+  return Object.keys(annotation).length ? annotation : undefined;
+}
+
+// Escaping rules from @actions/core (toCommandValue / escapeProperty)
+function decodeCommandData(value: string): string {
+  return value.replace(/%0D/gi, "\r").replace(/%0A/gi, "\n").replace(/%25/g, "%");
+}
+
+function decodeCommandProperty(value: string): string {
+  return decodeCommandData(value.replace(/%3A/gi, ":").replace(/%2C/gi, ","));
+}
+
+function toNumber(value: string): number | undefined {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { parseMatrixJobName, summarizeMatrix } from "./matrix.js";
+import type { FailedJob, JobSummary } from "./types.js";
+
+function failedJob(jobName: string): FailedJob {
+  return { jobId: 1, jobName, failedSteps: [], logs: "" };
+}
+
+function summary(jobName: string, conclusion: string): JobSummary {
+  return { jobId: 0, jobName, conclusion };
+}
+
+describe("parseMatrixJobName", () => {
+  it("splits matrix values from the job name", () => {
+    expect(parseMatrixJobName("test (ubuntu-latest, 20)")).toEqual({
+      baseName: "test",
+      values: ["ubuntu-latest", "20"]
+    });
+    expect(parseMatrixJobName("test: [ubuntu, 20]")).toEqual({
+      baseName: "test",
+      values: ["ubuntu", "20"]
+    });
+    expect(parseMatrixJobName("lint")).toBeUndefined();
+  });
+});
+
+describe("summarizeMatrix", () => {
+  const jobs = [
+    summary("test (ubuntu-latest, 18)", "failure"),
+    summary("test (ubuntu-latest, 20)", "success"),
+    summary("test (windows-latest, 18)", "failure"),
+    summary("test (windows-latest, 20)", "success"),
+    summary("lint", "success")
+  ];
+
+  it("names the runtime version shared by every failing cell", () => {
+    const matrix = summarizeMatrix(
+      failedJob("test (ubuntu-latest, 18)"),
+      jobs,
+      "Run actions/setup-node@v4"
+    );
+
+    expect(matrix?.scope).toBe("partial");
+    expect(matrix?.discriminator).toEqual({ key: "node", value: "18" });
+    expect(matrix?.description).toBe("fails only on node 18 (2/4 cells)");
+  });
+
+  it("reports single-cell and universal failures", () => {
+    const single = summarizeMatrix(failedJob("test (windows-latest, 18)"), [
+      summary("test (ubuntu-latest, 18)", "success"),
+      summary("test (windows-latest, 18)", "failure")
+    ]);
+    expect(single?.scope).toBe("single");
+    expect(single?.description).toBe("fails only on os windows-latest (1/2 cells)");
+
+    const universal = summarizeMatrix(failedJob("test (ubuntu-latest, 18)"), [
+      summary("test (ubuntu-latest, 18)", "failure"),
+      summary("test (ubuntu-latest, 20)", "failure")
+    ]);
+    expect(universal?.scope).toBe("universal");
+  });
+});
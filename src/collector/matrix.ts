@@ -0,0 +1,99 @@
+import type { FailedJob, JobSummary, MatrixCell, MatrixSummary } from "./types.js";
+
+const OS_PATTERN = /^(ubuntu|windows|macos|linux|darwin|win|mac|self-hosted)/i;
+const VERSION_PATTERN = /^v?\d+(?:\.(?:\d+|x))*$/i;
+const RUNTIME_SETUP_PATTERN = /(?:actions\/)?setup-(node|python|go|java|ruby|dotnet|deno|bun)/i;
+
+/**
+ * Parse a matrix job name like `test (ubuntu-latest, 20)` into its base name
+ * and the ordered matrix values GitHub appends in parentheses. GitLab's
+ * `parallel: matrix` names (`test: [ubuntu, 20]`) are accepted too.
+ */
+export function parseMatrixJobName(jobName: string): MatrixCell | undefined {
+  const match =
+    jobName.match(/^(.*?)\s*\(([^()]+)\)\s*$/) ?? jobName.match(/^(.*?):?\s*\[([^[\]]+)\]\s*$/);
+  if (!match) return undefined;
+
+  const values = match[2].split(",").map(v => v.trim()).filter(Boolean);
+  if (!values.length) return undefined;
+
+  return { baseName: match[1].trim() || jobName, values };
+}
+
+/**
+ * Decide whether a failing matrix job fails on every cell or only some,
+ * and name the dimension value that separates failing from passing cells.
+ */
+export function summarizeMatrix(
+  job: FailedJob,
+  jobs: JobSummary[],
+  logs: string = ""
+): MatrixSummary | undefined {
+  const cell = job.matrix ?? parseMatrixJobName(job.jobName);
+  if (!cell) return undefined;
+
+  const siblings = jobs
+    .map(j => ({ ...j, matrix: j.matrix ?? parseMatrixJobName(j.jobName) }))
+    .filter(j => j.matrix?.baseName === cell.baseName && j.matrix.values.length === cell.values.length);
+  if (siblings.length < 2) return undefined;
+
+  const failing = siblings.filter(j => j.conclusion === "failure");
+  const passing = siblings.filter(j => j.conclusion === "success");
+  const failingCells = failing.map(j => j.jobName);
+  const passingCells = passing.map(j => j.jobName);
+
+  if (!passing.length) {
+    return {
+      baseName: cell.baseName,
+      scope: "universal",
+      failingCells,
+      passingCells,
+      description: `fails on all ${siblings.length} matrix cells`
+    };
+  }
+
+  const discriminator = findDiscriminator(
+    failing.map(j => j.matrix!.values),
+    passing.map(j => j.matrix!.values),
+    logs
+  );
+  const ratio = `${failing.length}/${siblings.length} cells`;
+
+  return {
+    baseName: cell.baseName,
+    scope: failing.length === 1 ? "single" : "partial",
+    failingCells,
+    passingCells,
+    discriminator,
+    description: discriminator
+      ? `fails only on ${discriminator.key} ${discriminator.value} (${ratio})`
+      : `fails on ${ratio}`
+  };
+}
+
+function findDiscriminator(
+  failing: string[][],
+  passing: string[][],
+  logs: string
+): { key: string; value: string } | undefined {
+  const width = failing[0]?.length ?? 0;
+
+  for (let position = 0; position < width; position += 1) {
+    const value = failing[0][position];
+    const sharedByFailing = failing.every(values => values[position] === value);
+    const absentFromPassing = passing.every(values => values[position] !== value);
+    if (sharedByFailing && absentFromPassing) {
+      return { key: inferDimensionKey(value, logs), value };
+    }
+  }
+
+  return undefined;
+}
+
+function inferDimensionKey(value: string, logs: string): string {
+  if (OS_PATTERN.test(value)) return "os";
+  if (VERSION_PATTERN.test(value)) {
+    return logs.match(RUNTIME_SETUP_PATTERN)?.[1].toLowerCase() ?? "version";
+  }
+  return "matrix value";
+}
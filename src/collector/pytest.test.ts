@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { parsePytestOutput } from "./pytest.js";
+
+const PYTEST = `============================= test session starts ==============================
+collected 3 items
+
+tests/test_math.py F.                                                    [ 66%]
+tests/test_io.py E                                                       [100%]
+
+==================================== ERRORS ====================================
+_____________________ ERROR collecting tests/test_io.py ______________________
+ImportError while importing test module 'tests/test_io.py'.
+E   ModuleNotFoundError: No module named 'boto3'
+=================================== FAILURES ===================================
+______________________________ TestAdd.test_adds _______________________________
+
+self = <tests.test_math.TestAdd object at 0x7f>
+
+    def test_adds(self):
+>       assert add(1, 2) == 4
+E       assert 3 == 4
+E        +  where 3 = add(1, 2)
+
+tests/test_math.py:12: AssertionError
+=========================== short test summary info ============================
+FAILED tests/test_math.py::TestAdd::test_adds - assert 3 == 4
+ERROR tests/test_io.py - ModuleNotFoundError: No module named 'boto3'
+==================== 1 failed, 1 passed, 1 error in 0.12s ======================`;
+
+describe("parsePytestOutput", () => {
+  it("extracts failures and collection errors with their location", () => {
+    const [failure, error] = parsePytestOutput(PYTEST);
+
+    expect(failure).toEqual({
+      source: "pytest",
+      id: "tests/test_math.py::TestAdd::test_adds",
+      suite: "TestAdd",
+      name: "test_adds",
+      file: "tests/test_math.py",
+      line: 12,
+      message: "assert 3 == 4",
+      frame: "tests/test_math.py:12: AssertionError",
+      stack: "assert 3 == 4\n+  where 3 = add(1, 2)"
+    });
+    expect(error).toMatchObject({
+      id: "tests/test_io.py",
+      file: "tests/test_io.py",
+      message: "ModuleNotFoundError: No module named 'boto3'"
+    });
+  });
+
+  it("falls back to -v result lines and traceback errors", () => {
+    const failures = parsePytestOutput(
+      [
+        "tests/test_api.py::test_status[404] FAILED                        [100%]",
+        "________________________ test_status[404] ________________________",
+        "tests/test_api.py:30: in test_status",
+        "    assert response.status_code == code",
+        "E   assert 500 == 404",
+        "====== 1 failed in 0.05s ======"
+      ].join("\n")
+    );
+
+    expect(failures).toEqual([
+      expect.objectContaining({ name: "test_status[404]", line: 30, message: "assert 500 == 404" })
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import type { TestFailure } from "./types.js";
+
+const SUMMARY_PATTERN = /^(FAILED|ERROR)\s+(\S+?)(?:\s+-\s+(.*))?$/;
+const VERBOSE_PATTERN = /^(\S+\.py::\S+)\s+(FAILED|ERROR)\b/;
+const SECTION_PATTERN = /^_{3,}\s+(?:ERROR (?:at \w+ of|collecting)\s+)?(.+?)\s+_{3,}$/;
+const LOCATION_PATTERN = /^(\S+\.py):(\d+):\s+(?:in \S+|\w+(?:Error|Exception|Exit)\w*)$/;
+const BANNER_PATTERN = /^={3,}.*={3,}$/;
+
+/**
+ * Parse failing tests out of pytest output: the short test summary (or
+ * `-v` result lines) names them, the tracebacks locate them.
+ */
+export function parsePytestOutput(logs: string): TestFailure[] {
+  const lines = logs.split("\n").map(line => line.trimEnd());
+  const tracebacks = collectTracebacks(lines);
+
+  const failures = new Map<string, TestFailure>();
+  for (const line of lines) {
+    const summary = line.match(SUMMARY_PATTERN);
+    const verbose = line.match(VERBOSE_PATTERN);
+    const nodeId = summary?.[2] ?? verbose?.[1];
+    if (!nodeId || !/\.py\b/.test(nodeId)) continue;
+
+    const existing = failures.get(nodeId);
+    if (existing && !summary?.[3]) continue;
+    failures.set(nodeId, toFailure(nodeId, summary?.[3] ?? existing?.message, tracebacks));
+  }
+
+  return [...failures.values()];
+}
+
+function toFailure(nodeId: string, summaryMessage: string | undefined, tracebacks: Map<string, string[]>): TestFailure {
+  const [file, ...parts] = nodeId.split("::");
+  const name = parts[parts.length - 1] ?? file;
+  const body = tracebacks.get(parts.join(".")) ?? tracebacks.get(file) ?? [];
+
+  const errors = body.filter(line => /^E\s/.test(line)).map(line => line.replace(/^E\s+/, ""));
+  const locations = body
+    .map(line => line.match(LOCATION_PATTERN))
+    .filter((match): match is RegExpMatchArray => Boolean(match));
+  const inTestFile = locations.filter(match => match[1] === file).pop();
+
+  return {
+    source: "pytest",
+    id: nodeId,
+    suite: parts.length > 1 ? parts.slice(0, -1).join("::") : undefined,
+    name,
+    file,
+    line: inTestFile ? Number(inTestFile[2]) : undefined,
+    message: summaryMessage || errors[0] || "(no message)",
+    frame: locations[locations.length - 1]?.[0],
+    stack: errors.length ? errors.slice(0, 10).join("\n") : undefined
+  };
+}
+
+/**
+ * Traceback sections keyed by their header: `Class.test_name`, or the
+ * module path for collection errors
+ */
+function collectTracebacks(lines: string[]): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  let current: string[] | undefined;
+
+  for (const line of lines) {
+    const header = line.match(SECTION_PATTERN);
+    if (header) {
+      current = [];
+      sections.set(header[1], current);
+    } else if (BANNER_PATTERN.test(line)) {
+      current = undefined;
+    } else {
+      current?.push(line);
+    }
+  }
+
+  return sections;
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { describeResource, detectExhaustedResource } from "./resources.js";
+
+describe("detectExhaustedResource", () => {
+  it("names the resource and quotes the line", () => {
+    const resource = detectExhaustedResource("Step 4/9 : RUN npm ci\nnpm ERR! nospc ENOSPC: no space left on device, write\n");
+
+    expect(resource).toEqual({ kind: "disk", evidence: "npm ERR! nospc ENOSPC: no space left on device, write" });
+    expect(describeResource(resource!)).toBe("disk space");
+  });
+
+  it("prefers the specific resource over a follow-on memory error", () => {
+    const logs = "fatal: cannot allocate memory\nError: EMFILE: too many open files, watch '/src'";
+
+    expect(detectExhaustedResource(logs)?.kind).toBe("file_descriptors");
+    expect(detectExhaustedResource("java.lang.OutOfMemoryError: Java heap space")?.kind).toBe("memory");
+    expect(detectExhaustedResource("bash: fork: retry: Resource temporarily unavailable")?.kind).toBe("processes");
+  });
+
+  it("finds nothing in an ordinary failure", () => {
+    expect(detectExhaustedResource("expected 2 to be 3")).toBeUndefined();
+  });
+});
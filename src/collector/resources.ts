@@ -0,0 +1,41 @@
+import type { ExhaustedResource } from "./types.js";
+
+// Most specific first: a disk-full build can also fail to allocate memory
+const RESOURCE_PATTERNS: Array<{ kind: ExhaustedResource["kind"]; pattern: RegExp }> = [
+  { kind: "disk", pattern: /no space left on device|ENOSPC|disk quota exceeded|not enough space on the disk/i },
+  { kind: "file_descriptors", pattern: /too many open files|EMFILE/ },
+  { kind: "processes", pattern: /fork: (?:retry|Resource temporarily unavailable)|pthread_create failed|can't start new thread/i },
+  {
+    kind: "memory",
+    pattern:
+      /JavaScript heap out of memory|out of memory|OOMKilled|oom-kill|cannot allocate memory|ENOMEM|OutOfMemoryError|MemoryError|exit code 137/i
+  }
+];
+
+/**
+ * Find what the runner ran out of, with the first log line that says so
+ */
+export function detectExhaustedResource(logs: string): ExhaustedResource | undefined {
+  const lines = logs.split("\n");
+  for (const { kind, pattern } of RESOURCE_PATTERNS) {
+    const line = lines.find(l => pattern.test(l));
+    if (line) return { kind, evidence: line.trim().slice(0, 200) };
+  }
+  return undefined;
+}
+
+/**
+ * Human-readable name of a resource
+ */
+export function describeResource(resource: ExhaustedResource): string {
+  switch (resource.kind) {
+    case "disk":
+      return "disk space";
+    case "file_descriptors":
+      return "open file descriptors";
+    case "processes":
+      return "processes/threads";
+    default:
+      return "memory";
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { compileClassificationRules } from "./classification.js";
+import { collectClassificationSignals, scoreClassification } from "./scoring.js";
+import { signatureOutcomeSignals } from "../agent/signatures.js";
+import { routeFailure } from "../agent/routing.js";
+import { getDefaultConfig } from "../config/greenlit.config.js";
+import type { FailureContext } from "./types.js";
+
+const rules = compileClassificationRules();
+
+function score(logs: string, jobNames: string[] = ["build"], evidence = {}) {
+  return scoreClassification(
+    collectClassificationSignals(rules, { logs, jobNames, stepNames: [], workflowName: "CI" }, evidence)
+  );
+}
+
+describe("scoreClassification", () => {
+  it("gives each class its share of the signal weight, with reasons", () => {
+    const scores = score("Error: connect ECONNREFUSED 10.0.0.1:443\nProcess completed with exit code 1.");
+    const [top, next] = scores.classes;
+
+    expect(top.class).toBe("infra_outage");
+    expect(top.reasons).toEqual(["matched rule infra_outage"]);
+    expect(next.class).toBe("deterministic");
+    expect(next.reasons).toEqual(["default for code failures", "exit code 1 (ordinary failure)"]);
+    expect(scores.classes.reduce((sum, c) => sum + c.probability, 0)).toBeCloseTo(1);
+    expect(top.probability).toBeCloseTo(3.5 / 5);
+    expect(scores.types[0].type).toBe("build");
+  });
+
+  it("weighs exit codes, test reports and rerun history", () => {
+    expect(score("Killed\nProcess completed with exit code 137.").classes[0].class).toBe("resource_exhaustion");
+
+    const tests = score("", ["ci"], {
+      testFailures: [{ source: "junit", name: "adds", message: "expected 3 to be 4" }]
+    });
+    expect(tests.types[0]).toMatchObject({ type: "test", reasons: ["1 failing test reported"] });
+
+    const flaky = score("FAIL src/math.test.ts", ["test"], {
+      flakeEvidence: {
+        currentAttempt: 2,
+        attempts: [],
+        flakyJobs: ["test"],
+        consistentJobs: [],
+        description: "passed on rerun"
+      }
+    });
+    expect(flaky.classes[0]).toMatchObject({ class: "flaky", reasons: ["passed on rerun"] });
+  });
+
+  it("does not pick a class for failures outside the change", () => {
+    const base = score("FAIL src/math.test.ts\nexpected 3 to be 4", ["test"]);
+    const outside = score("FAIL src/math.test.ts\nexpected 3 to be 4", ["test"], {
+      changeImpact: { label: "outside_change", summary: "Outside this PR", reason: "elsewhere" }
+    });
+
+    expect(outside.classes).toEqual(base.classes);
+  });
+
+  it("folds in how the signature was resolved before", () => {
+    const base = score("FAIL src/math.test.ts\nexpected 3 to be 4", ["test"]);
+    const record = { signature: "abc", attempts: 1, lastSeen: "", lastOutcome: "quarantine" as const };
+    const rescored = scoreClassification([...base.signals, ...signatureOutcomeSignals(record)]);
+
+    expect(base.classes[0].class).toBe("deterministic");
+    expect(rescored.classes[0]).toMatchObject({ class: "flaky", reasons: ["previously quarantined as flaky"] });
+  });
+});
+
+describe("routeFailure with min_fix_confidence", () => {
+  it("reports instead of fixing when the top class is not confident enough", () => {
+    const classification = score("Error: connect ECONNREFUSED\nexpected 3 to be 4", ["test"]);
+    const context = {
+      failureClass: "deterministic",
+      failureType: "test",
+      classification: { ...classification, classes: [{ class: "deterministic", probability: 0.55, reasons: [] }] }
+    } as unknown as FailureContext;
+    const config = getDefaultConfig();
+
+    expect(routeFailure(context, config)).toBe("fix_attempt");
+    config.routing.min_fix_confidence = 0.6;
+    expect(routeFailure(context, config)).toBe("report_only");
+  });
+
+  it("asks for more confidence before fixing failures outside the change", () => {
+    const outside = {
+      failureClass: "deterministic",
+      failureType: "test",
+      classification: { classes: [{ class: "deterministic", probability: 0.7, reasons: [] }], types: [], signals: [] },
+      changeImpact: { label: "outside_change", summary: "Outside this PR", reason: "elsewhere" }
+    } as unknown as FailureContext;
+    const config = getDefaultConfig();
+
+    expect(routeFailure(outside, config)).toBe("report_only");
+    expect(routeFailure({ ...outside, changeImpact: { ...outside.changeImpact!, label: "pre_existing" } }, config)).toBe(
+      "fix_attempt"
+    );
+    config.routing.outside_change_min_confidence = 0.6;
+    expect(routeFailure(outside, config)).toBe("fix_attempt");
+  });
+});
@@ -0,0 +1,177 @@
+import type {
+  ChangeImpact,
+  ClassificationScores,
+  ClassificationSignal,
+  CompilerDiagnostic,
+  Diagnostic,
+  LintViolation,
+  FailureClass,
+  FailureType,
+  FlakeEvidence,
+  MatrixSummary,
+  TestFailure
+} from "./types.js";
+import { EVIDENCE_PRIORITY, type ClassificationInput, type CompiledRule } from "./classification.js";
+
+/**
+ * Weight a matching rule adds to its class or type. Rule priorities keep
+ * their meaning: a rule above EVIDENCE_PRIORITY outweighs rerun or matrix
+ * evidence on its own, a rule below it does not.
+ */
+export function ruleWeight(priority: number): number {
+  return priority / 20;
+}
+
+const EVIDENCE_WEIGHT = ruleWeight(EVIDENCE_PRIORITY);
+
+// What an exit code says about the failure, when the log shows one
+const EXIT_CODE_SIGNALS: Record<number, { target: FailureClass; weight: number; reason: string }> = {
+  1: { target: "deterministic", weight: 0.5, reason: "exit code 1 (ordinary failure)" },
+  126: { target: "permissions", weight: 1, reason: "exit code 126 (command not executable)" },
+  127: { target: "environment", weight: 1.5, reason: "exit code 127 (command not found)" },
+  137: { target: "resource_exhaustion", weight: 1.5, reason: "exit code 137 (killed, often out of memory)" },
+  143: { target: "runner_lost", weight: 1, reason: "exit code 143 (terminated)" }
+};
+
+export interface ScoringEvidence {
+  matrix?: MatrixSummary;
+  flakeEvidence?: FlakeEvidence;
+  blind?: boolean;
+  diagnostics?: Diagnostic[];
+  testFailures?: TestFailure[];
+  compilerDiagnostics?: CompilerDiagnostic[];
+  lintErrors?: LintViolation[];
+  changeImpact?: ChangeImpact;
+}
+
+/**
+ * Gather weighted signals for each failure class and type from rules, exit
+ * codes, annotations, failing tests, compiler and lint errors, rerun history,
+ * the matrix and whether the change touched the failing lines.
+ */
+export function collectClassificationSignals(
+  rules: CompiledRule[],
+  input: ClassificationInput,
+  evidence: ScoringEvidence = {}
+): ClassificationSignal[] {
+  const signals: ClassificationSignal[] = [];
+  const add = (signal: ClassificationSignal) => signals.push(signal);
+
+  // Without logs there is nothing to call a code failure
+  add(
+    evidence.blind
+      ? { source: "prior", kind: "class", target: "unknown", weight: 1, reason: "no logs to classify" }
+      : { source: "prior", kind: "class", target: "deterministic", weight: 1, reason: "default for code failures" }
+  );
+  add({ source: "prior", kind: "type", target: "unknown", weight: 0.5, reason: "no type signal" });
+
+  for (const rule of rules) {
+    if (!rule.matches(input)) continue;
+    const reason = `matched rule ${rule.name}`;
+    if (rule.class) add({ source: "rule", kind: "class", target: rule.class, weight: ruleWeight(rule.priority), reason });
+    if (rule.type) add({ source: "rule", kind: "type", target: rule.type, weight: ruleWeight(rule.priority), reason });
+  }
+
+  const exitCode = [...input.logs.matchAll(/exit code (\d+)/gi)].map(match => Number(match[1])).pop();
+  const exitSignal = exitCode !== undefined ? EXIT_CODE_SIGNALS[exitCode] : undefined;
+  if (exitSignal) {
+    add({ source: "exit_code", kind: "class", ...exitSignal });
+  }
+
+  const located = (evidence.diagnostics ?? []).filter(
+    d => d.level === "failure" && d.path && !d.path.startsWith(".github")
+  );
+  if (located.length) {
+    const first = located[0];
+    add({
+      source: "annotation",
+      kind: "class",
+      target: "deterministic",
+      weight: 1,
+      reason: `annotation at ${first.path}${first.line ? `:${first.line}` : ""}`
+    });
+  }
+  if (located.some(d => /\bTS\d{4,5}\b/.test(`${d.title ?? ""} ${d.message}`))) {
+    add({ source: "annotation", kind: "type", target: "typecheck", weight: 1, reason: "TypeScript diagnostic annotation" });
+  }
+
+  const failingTests = evidence.testFailures?.length ?? 0;
+  if (failingTests) {
+    const reason = `${failingTests} failing test${failingTests === 1 ? "" : "s"} reported`;
+    add({ source: "test_report", kind: "type", target: "test", weight: 2, reason });
+    add({ source: "test_report", kind: "class", target: "deterministic", weight: 0.5, reason });
+  }
+
+  const typeErrors = evidence.compilerDiagnostics?.length ?? 0;
+  if (typeErrors) {
+    const reason = `${typeErrors} TypeScript error${typeErrors === 1 ? "" : "s"} in the log`;
+    add({ source: "compiler", kind: "type", target: "typecheck", weight: 2, reason });
+    add({ source: "compiler", kind: "class", target: "deterministic", weight: 0.5, reason });
+  }
+
+  const lintErrors = evidence.lintErrors?.length ?? 0;
+  if (lintErrors) {
+    const reason = `${lintErrors} ESLint error${lintErrors === 1 ? "" : "s"} in the log`;
+    add({ source: "linter", kind: "type", target: "lint", weight: 2, reason });
+    add({ source: "linter", kind: "class", target: "deterministic", weight: 0.5, reason });
+  }
+
+  const flake = evidence.flakeEvidence;
+  if (flake?.flakyJobs.length) {
+    add({ source: "rerun", kind: "class", target: "flaky", weight: EVIDENCE_WEIGHT, reason: flake.description });
+  } else if (flake?.consistentJobs.length && flake.attempts.length > 1) {
+    add({ source: "rerun", kind: "class", target: "deterministic", weight: 1, reason: flake.description });
+  }
+
+  if (evidence.matrix?.scope === "single") {
+    add({ source: "matrix", kind: "class", target: "environment", weight: EVIDENCE_WEIGHT, reason: evidence.matrix.description });
+  } else if (evidence.matrix?.scope === "universal") {
+    add({ source: "matrix", kind: "class", target: "deterministic", weight: 0.5, reason: evidence.matrix.description });
+  }
+
+  // A failure on lines the change touched is most likely the change's doing.
+  // One far from the diff says nothing about its class: routing asks for more
+  // confidence before fixing it instead
+  if (evidence.changeImpact?.label === "introduced") {
+    add({ source: "change", kind: "class", target: "deterministic", weight: 1, reason: evidence.changeImpact.reason });
+  }
+
+  return signals;
+}
+
+/**
+ * Turn signals into a probability per class and type: each candidate's
+ * share of the total weight. Ties go to the candidate with the strongest
+ * single signal.
+ */
+export function scoreClassification(signals: ClassificationSignal[]): ClassificationScores {
+  const rank = (kind: ClassificationSignal["kind"]) => {
+    const relevant = signals.filter(signal => signal.kind === kind && signal.weight > 0);
+    const total = relevant.reduce((sum, signal) => sum + signal.weight, 0);
+    const byTarget = new Map<string, ClassificationSignal[]>();
+    for (const signal of [...relevant].sort((a, b) => b.weight - a.weight)) {
+      byTarget.set(signal.target, [...(byTarget.get(signal.target) ?? []), signal]);
+    }
+    return [...byTarget.entries()]
+      .map(([target, contributing]) => ({
+        target,
+        probability: total ? contributing.reduce((sum, signal) => sum + signal.weight, 0) / total : 0,
+        reasons: contributing.map(signal => signal.reason)
+      }))
+      .sort((a, b) => b.probability - a.probability);
+  };
+
+  return {
+    classes: rank("class").map(({ target, probability, reasons }) => ({
+      class: target as FailureClass,
+      probability,
+      reasons
+    })),
+    types: rank("type").map(({ target, probability, reasons }) => ({
+      type: target as FailureType,
+      probability,
+      reasons
+    })),
+    signals
+  };
+}
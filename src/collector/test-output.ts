@@ -0,0 +1,18 @@
+import { parseJestOutput } from "./jest.js";
+import { parsePytestOutput } from "./pytest.js";
+import { parseGoTestOutput } from "./go-test.js";
+import { parseCargoTestOutput } from "./cargo-test.js";
+import type { TestFailure } from "./types.js";
+
+/**
+ * Parse failing tests out of a job log, whichever runner printed it:
+ * Jest/Vitest, pytest, `go test` or `cargo test`.
+ */
+export function parseTestOutput(logs: string): TestFailure[] {
+  return [
+    ...parseJestOutput(logs),
+    ...parsePytestOutput(logs),
+    ...parseGoTestOutput(logs),
+    ...parseCargoTestOutput(logs)
+  ];
+}
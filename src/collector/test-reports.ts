@@ -0,0 +1,66 @@
+import { Octokit } from "@octokit/rest";
+import { extractLogEntries, normalizeLogBuffer } from "./log-archive.js";
+import { isJUnitXml, parseJUnitXml } from "./junit.js";
+import { isJestJson, parseJestJson } from "./jest.js";
+import { matchesGlob } from "../utils/glob.js";
+import type { LogEntry, TestFailure } from "./types.js";
+import type { TestReportsConfig } from "../config/greenlit.config.js";
+
+/**
+ * Download run artifacts whose names match `artifact_globs` and parse the
+ * JUnit XML and Jest/Vitest JSON files inside them into structured test failures.
+ */
+export async function collectTestReportFailures(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  runId: number,
+  config: TestReportsConfig
+): Promise<TestFailure[]> {
+  if (!config.enabled) return [];
+
+  try {
+    const artifacts = await octokit.paginate(octokit.rest.actions.listWorkflowRunArtifacts, {
+      owner,
+      repo,
+      run_id: runId,
+      per_page: 100
+    });
+
+    const failures: TestFailure[] = [];
+    for (const artifact of artifacts) {
+      if (artifact.expired) continue;
+      if (!config.artifact_globs.some(glob => matchesGlob(artifact.name, glob))) continue;
+
+      try {
+        const { data } = await octokit.rest.actions.downloadArtifact({
+          owner,
+          repo,
+          artifact_id: artifact.id,
+          archive_format: "zip"
+        });
+        const entries = extractLogEntries(normalizeLogBuffer(data));
+        failures.push(...parseTestReportEntries(entries, config));
+      } catch (error) {
+        console.warn(`Failed to download artifact ${artifact.name}:`, error);
+      }
+    }
+
+    return failures.slice(0, config.max_failures);
+  } catch (error) {
+    console.warn("Failed to list run artifacts:", error);
+    return [];
+  }
+}
+
+/**
+ * Parse JUnit XML and Jest/Vitest JSON files among archive or bundle entries
+ */
+export function parseTestReportEntries(entries: LogEntry[], config: TestReportsConfig): TestFailure[] {
+  return entries
+    .filter(entry => config.file_globs.some(glob => matchesGlob(entry.name, glob)))
+    .flatMap(entry =>
+      isJUnitXml(entry.content) ? parseJUnitXml(entry.content) : isJestJson(entry.content) ? parseJestJson(entry.content) : []
+    )
+    .slice(0, config.max_failures);
+}
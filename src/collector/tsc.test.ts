@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { parseTscOutput, summarizeTypecheck } from "./tsc.js";
+import { buildFailureContext } from "./context-builder.js";
+import { computeSignature } from "../agent/signatures.js";
+import type { WorkflowRunContext } from "./types.js";
+
+const PLAIN = `> tsc --noEmit
+src/api.ts(12,5): error TS2322: Type 'string' is not assignable to type 'number'.
+src/api.ts(30,10): error TS2345: Argument of type '{ id: string; }' is not assignable to parameter of type 'User'.
+  Property 'name' is missing in type '{ id: string; }' but required in type 'User'.
+src/db.ts(4,1): error TS2322: Type 'null' is not assignable to type 'Pool'.
+error TS5023: Unknown compiler option 'strictest'.`;
+
+const PRETTY = `src/api.ts:12:5 - error TS2322: Type 'string' is not assignable to type 'number'.
+
+12   const port: number = process.env.PORT;
+         ~~~~
+
+Found 1 error in src/api.ts:12`;
+
+function run(logs: string): WorkflowRunContext {
+  return {
+    runId: 1,
+    repo: { owner: "acme", repo: "api" },
+    headSha: "abc123",
+    headBranch: "main",
+    workflowName: "CI",
+    failedJobs: [
+      {
+        jobId: 1,
+        jobName: "typecheck",
+        failedSteps: [{ stepName: "Run tsc", conclusion: "failure", startedAt: "", completedAt: "" }],
+        logs
+      }
+    ]
+  };
+}
+
+describe("parseTscOutput", () => {
+  it("parses plain diagnostics with message chains and project-wide errors", () => {
+    const diagnostics = parseTscOutput(PLAIN);
+
+    expect(diagnostics).toHaveLength(4);
+    expect(diagnostics[0]).toEqual({
+      file: "src/api.ts",
+      line: 12,
+      column: 5,
+      code: "TS2322",
+      message: "Type 'string' is not assignable to type 'number'."
+    });
+    expect(diagnostics[1].message).toBe(
+      "Argument of type '{ id: string; }' is not assignable to parameter of type 'User'.\n" +
+        "Property 'name' is missing in type '{ id: string; }' but required in type 'User'."
+    );
+    expect(diagnostics[3]).toEqual({ code: "TS5023", message: "Unknown compiler option 'strictest'." });
+
+    const summary = summarizeTypecheck(diagnostics);
+    expect(summary.total).toBe(4);
+    expect(summary.codes).toEqual([
+      { code: "TS2322", count: 2 },
+      { code: "TS2345", count: 1 },
+      { code: "TS5023", count: 1 }
+    ]);
+    expect(summary.files.map(f => [f.file, f.diagnostics.length])).toEqual([
+      ["src/api.ts", 2],
+      ["src/db.ts", 1],
+      ["(project)", 1]
+    ]);
+  });
+
+  it("parses the pretty format without the code frame", () => {
+    expect(parseTscOutput(`\u001b[96m${PRETTY}`)).toEqual([
+      {
+        file: "src/api.ts",
+        line: 12,
+        column: 5,
+        code: "TS2322",
+        message: "Type 'string' is not assignable to type 'number'."
+      }
+    ]);
+  });
+
+  it("classifies, locates and signs typecheck failures by code and file", async () => {
+    const context = await buildFailureContext(run(PLAIN));
+
+    expect(context.failureType).toBe("typecheck");
+    expect(context.typecheck?.total).toBe(4);
+    expect(context.errorSignature).toBe("src/api.ts:12:5 TS2322: Type 'string' is not assignable to type 'number'.");
+    expect(context.evidence).toMatchObject({ file: "src/api.ts", line: "12" });
+
+    // Same codes in the same files, different types named in the messages
+    const renamed = await buildFailureContext(run(PLAIN.replace(/'number'/g, "'bigint'")));
+    const moved = await buildFailureContext(run(PLAIN.replace("src/db.ts", "src/cache.ts")));
+    expect(computeSignature(renamed)).toBe(computeSignature(context));
+    expect(computeSignature(moved)).not.toBe(computeSignature(context));
+  });
+});
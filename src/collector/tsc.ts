@@ -0,0 +1,82 @@
+import type { CompilerDiagnostic, TypecheckSummary } from "./types.js";
+import { relativizeRunnerPath } from "../utils/paths.js";
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+// src/a.ts(12,5): error TS2322: …
+const PLAIN_PATTERN = /(?:^|\s)(\S+?\.[cm]?[jt]sx?)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+// src/a.ts:12:5 - error TS2322: … (--pretty, the default in a terminal)
+const PRETTY_PATTERN = /(?:^|\s)(\S+?\.[cm]?[jt]sx?):(\d+):(\d+) - error (TS\d+): (.*)$/;
+// error TS5023: Unknown compiler option 'foo'.
+const GLOBAL_PATTERN = /^\s*error (TS\d+): (.*)$/;
+
+/**
+ * Parse TypeScript compiler errors out of a log, in the plain or pretty
+ * format. Indented lines right after an error continue its message chain.
+ */
+export function parseTscOutput(logs: string): CompilerDiagnostic[] {
+  const diagnostics = new Map<string, CompilerDiagnostic>();
+  let current: CompilerDiagnostic | undefined;
+
+  for (const line of logs.replace(ANSI_PATTERN, "").split("\n")) {
+    const located = line.match(PLAIN_PATTERN) ?? line.match(PRETTY_PATTERN);
+    const global = located ? null : line.match(GLOBAL_PATTERN);
+
+    if (located) {
+      current = {
+        file: relativizeRunnerPath(located[1]),
+        line: Number(located[2]),
+        column: Number(located[3]),
+        code: located[4],
+        message: located[5].trim()
+      };
+    } else if (global) {
+      current = { code: global[1], message: global[2].trim() };
+    } else {
+      if (current && /^\s+\S/.test(line)) {
+        current.message += `\n${line.trim()}`;
+      } else {
+        current = undefined;
+      }
+      continue;
+    }
+
+    // Problem matchers echo each error, so the same one can appear twice
+    const key = `${current.file}:${current.line}:${current.column}:${current.code}`;
+    if (diagnostics.has(key)) {
+      current = undefined;
+    } else {
+      diagnostics.set(key, current);
+    }
+  }
+
+  return [...diagnostics.values()];
+}
+
+/**
+ * Count diagnostics by code and group them by file
+ */
+export function summarizeTypecheck(diagnostics: CompilerDiagnostic[]): TypecheckSummary {
+  const counts = new Map<string, number>();
+  const files = new Map<string, CompilerDiagnostic[]>();
+  for (const diagnostic of diagnostics) {
+    counts.set(diagnostic.code, (counts.get(diagnostic.code) ?? 0) + 1);
+    const file = diagnostic.file ?? "(project)";
+    files.set(file, [...(files.get(file) ?? []), diagnostic]);
+  }
+
+  return {
+    total: diagnostics.length,
+    codes: [...counts.entries()]
+      .map(([code, count]) => ({ code, count }))
+      .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code)),
+    files: [...files.entries()].map(([file, fileDiagnostics]) => ({ file, diagnostics: fileDiagnostics }))
+  };
+}
+
+/**
+ * `file:line:col`, or the code alone for project-wide errors
+ */
+export function formatDiagnosticLocation(diagnostic: CompilerDiagnostic): string {
+  if (!diagnostic.file) return diagnostic.code;
+  return [diagnostic.file, diagnostic.line, diagnostic.column].filter(part => part !== undefined).join(":");
+}
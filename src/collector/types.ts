@@ -8,7 +8,53 @@ export interface WorkflowRunContext {
   headSha: string;
   headBranch: string;
   workflowName: string;
+  workflowPath?: string;     // .github/workflows/ci.yml
   failedJobs: FailedJob[];
+  jobs?: JobSummary[];       // Every job in the run, for matrix comparisons
+  annotations?: Diagnostic[]; // Check-run annotations for the failed jobs
+  runAttempt?: number;
+  attempts?: AttemptSummary[]; // Every attempt of this run, including the current one
+  testFailures?: TestFailure[]; // From test report artifacts
+  changeBase?: ChangeBase;   // What the head commit is compared against
+  changes?: ChangedFile[];   // Files changed since the base, from the compare API
+}
+
+/**
+ * The commit a run's changes are measured from
+ */
+export interface ChangeBase {
+  sha: string;
+  source: "pull_request" | "last_green" | "parent";
+  pullNumber?: number;
+  author?: string;           // Who made the change: the PR author, when known
+}
+
+/**
+ * A file changed since the base, with the line ranges added or modified
+ * on the head side. No ranges means the diff had no patch (binary or too
+ * large), so any line may have changed.
+ */
+export interface ChangedFile {
+  path: string;
+  status: "added" | "modified" | "removed" | "renamed";
+  previousPath?: string;
+  ranges?: Array<{ start: number; end: number }>;
+}
+
+/**
+ * Whether the failing locations fall inside the lines the change touched
+ */
+export interface ChangeImpact {
+  label: "introduced" | "pre_existing" | "outside_change";
+  summary: string;           // "Introduced by this PR"
+  reason: string;
+  location?: { file: string; line?: number }; // The location that decided the label
+}
+
+export interface ChangeSet {
+  base?: ChangeBase;         // Unknown when no base could be resolved
+  via: "api" | "git";
+  files: ChangedFile[];
 }
 
 export interface FailedJob {
@@ -16,13 +62,139 @@ export interface FailedJob {
   jobName: string;
   failedSteps: FailedStep[];
   logs: string;
+  logsUnavailable?: string;  // Why the log could not be fetched
+  matrix?: MatrixCell;
+}
+
+export interface JobSummary {
+  jobId: number;
+  jobName: string;
+  conclusion: string;
+  matrix?: MatrixCell;
+}
+
+export interface MatrixCell {
+  baseName: string;          // "test" for "test (ubuntu-latest, 20)"
+  values: string[];          // ["ubuntu-latest", "20"]
+}
+
+export interface MatrixSummary {
+  baseName: string;
+  scope: "universal" | "partial" | "single";
+  failingCells: string[];
+  passingCells: string[];
+  discriminator?: { key: string; value: string };
+  description: string;       // e.g. "fails only on node 18 (1/4 cells)"
 }
 
 export interface FailedStep {
   stepName: string;
+  stepNumber?: number;
   conclusion: string;
   startedAt: string;
   completedAt: string;
+  logs?: string;             // This step's own log slice, when the archive has one
+}
+
+export interface StepCommand {
+  workflowPath: string;
+  jobId: string;             // Job key in the workflow file
+  stepName: string;
+  run: string;               // The step's `run:` script as written
+  workingDirectory?: string;
+  shell?: string;
+  env: Record<string, string>;
+}
+
+export interface LogEntry {
+  name: string;
+  content: string;
+}
+
+export interface TestFailure {
+  source: "junit" | "jest" | "vitest" | "pytest" | "go" | "cargo";
+  job?: string;              // Job that produced the report, when the CI host says
+  id?: string;               // Runner's own test id: pytest node id, Go package/test, cargo test path
+  suite?: string;
+  describePath?: string[];   // Enclosing describe blocks, outermost first
+  name: string;
+  file?: string;
+  line?: number;
+  message: string;
+  expected?: string;
+  received?: string;
+  diff?: string;             // Expected/received diff, when the assertion printed one
+  frame?: string;            // Top stack frame outside node_modules
+  stack?: string;
+}
+
+export interface CompilerDiagnostic {
+  file?: string;             // Absent for project-wide errors (bad tsconfig, unknown option)
+  line?: number;
+  column?: number;
+  code: string;              // e.g. "TS2322"
+  message: string;
+}
+
+export interface TypecheckSummary {
+  total: number;
+  codes: Array<{ code: string; count: number }>; // Most frequent first
+  files: Array<{ file: string; diagnostics: CompilerDiagnostic[] }>; // In output order
+}
+
+export interface LintViolation {
+  file: string;
+  line?: number;
+  column?: number;
+  ruleId?: string;           // Absent for parse errors
+  severity: "error" | "warning";
+  message: string;
+  fixable: boolean;          // `eslint --fix` can resolve it
+}
+
+export interface LintSummary {
+  errors: number;
+  warnings: number;
+  fixableErrors: number;
+  violations: LintViolation[];
+}
+
+export interface AttemptSummary {
+  attempt: number;
+  failedJobs: string[];
+  failedSteps: string[];     // "job / step"
+  passedJobs: string[];
+}
+
+export interface FlakeEvidence {
+  currentAttempt: number;
+  attempts: AttemptSummary[];
+  flakyJobs: string[];       // Failed now, passed on an earlier attempt
+  consistentJobs: string[];  // Failed on every attempt
+  description: string;
+}
+
+export interface Diagnostic {
+  level: "failure" | "warning" | "notice";
+  message: string;
+  title?: string;
+  path?: string;
+  line?: number;
+  endLine?: number;
+  jobName?: string;
+}
+
+/**
+ * What a runner ran out of, and the log line that says so
+ */
+export interface ExhaustedResource {
+  kind: "memory" | "disk" | "file_descriptors" | "processes";
+  evidence: string;
+}
+
+export interface RedactionSummary {
+  total: number;
+  byKind: Record<string, number>;  // e.g. { github_token: 1, email: 2 }
 }
 
 export interface EvidencePack {
@@ -47,6 +219,10 @@ export type FailureClass =
   | "permissions"       // Access control issues
   | "infra_outage"      // External service down
   | "dependency_registry" // npm/pypi/etc down
+  | "environment"       // Fails only on some OS/runtime matrix cells
+  | "resource_exhaustion" // Runner ran out of memory, disk or similar
+  | "runner_lost"       // Runner shut down or stopped responding mid-job
+  | "timeout"           // Job or step exceeded its time limit
   | "unknown";
 
 export type RoutingDecision =
@@ -56,6 +232,7 @@ export type RoutingDecision =
   | "escalate";         // Ask for human input
 
 export type OwnerAssignmentSource =
+  | "change_author"
   | "codeowners"
   | "blame"
   | "team_map"
@@ -75,6 +252,8 @@ export interface OwnerAssignment {
 
 export interface MemorySummary {
   seenBefore: boolean;
+  occurrences?: number;
+  firstSeen?: string;
   lastSeen?: string;
   lastOutcome?: string;
   lastOwner?: string;
@@ -82,6 +261,32 @@ export interface MemorySummary {
   threadUrl?: string;
 }
 
+export interface ClassificationSignal {
+  source: "rule" | "exit_code" | "annotation" | "test_report" | "compiler" | "linter" | "rerun" | "matrix" | "change" | "ledger" | "prior";
+  kind: "class" | "type";
+  target: FailureClass | FailureType;
+  weight: number;
+  reason: string;
+}
+
+export interface ClassScore {
+  class: FailureClass;
+  probability: number;
+  reasons: string[];
+}
+
+export interface TypeScore {
+  type: FailureType;
+  probability: number;
+  reasons: string[];
+}
+
+export interface ClassificationScores {
+  classes: ClassScore[];     // Most likely first
+  types: TypeScore[];
+  signals: ClassificationSignal[];
+}
+
 export interface FailureCard {
   title: string;
   summary: string;
@@ -89,16 +294,50 @@ export interface FailureCard {
   job?: string;
   step?: string;
   failedCommand?: string;
+  stepCommand?: StepCommand;
   errorSignature: string;
+  logsUnavailable?: string;
   evidence?: EvidencePack;
   failureType: FailureType;
   failureClass: FailureClass;
+  classScores?: ClassScore[]; // Top classes with their probability and reasons
   routingDecision: RoutingDecision;
+  changeImpact?: ChangeImpact;
+  matrix?: MatrixSummary;
+  sameFailureJobs?: string[]; // Other jobs failing the same way, covered by this card
+  flakeEvidence?: FlakeEvidence;
+  resource?: ExhaustedResource; // What ran out, for resource exhaustion
+  typeErrors?: {             // Count, codes and the first few locations of TypeScript errors
+    total: number;
+    files: number;
+    codes: Array<{ code: string; count: number }>;
+    first: CompilerDiagnostic[];
+  };
+  redactions?: RedactionSummary;
   owner?: OwnerAssignment;
   memory?: MemorySummary;
+  rollup?: RunRollup;        // Every failed job of the run, when more than one failed
   action: string;
 }
 
+export interface JobFailureSummary {
+  job: string;
+  step?: string;
+  failureType: FailureType;
+  failureClass: FailureClass;
+  routingDecision: RoutingDecision;
+  errorSignature: string;
+  signature: string;
+  owner?: string;
+  primary: boolean;
+  sameFailureJobs?: string[];
+}
+
+export interface RunRollup {
+  primaryJob: string;
+  jobs: JobFailureSummary[];
+}
+
 export interface FailureContext {
   // Metadata
   runId: number;
@@ -110,11 +349,14 @@ export interface FailureContext {
   // Failure classification
   failureType: FailureType;
   failureClass: FailureClass;
+  classification?: ClassificationScores; // Per-class/type probabilities behind the labels
   routingDecision: RoutingDecision;
 
   // Failure details
   failedCommand: string;
+  stepCommand?: StepCommand; // What the failed step ran, from the workflow file
   errorSignature: string;
+  logsUnavailable?: string;  // Jobs whose logs could not be fetched, and why
   relevantFiles: string[];
 
   // Logs
@@ -124,8 +366,37 @@ export interface FailureContext {
   // Evidence pack
   evidence?: EvidencePack;
 
+  // Check-run annotations (structured diagnostics)
+  diagnostics?: Diagnostic[];
+
+  // Matrix scope of the primary failing job
+  matrix?: MatrixSummary;
+
+  // Other failed jobs with the same error, triaged together with this one
+  sameFailureJobs?: string[];
+
+  // Rerun history of the same commit
+  flakeEvidence?: FlakeEvidence;
+
+  // Structured test failures (test reports)
+  testFailures?: TestFailure[];
+
+  // TypeScript compiler errors parsed from the log
+  typecheck?: TypecheckSummary;
+
+  // ESLint violations parsed from the log
+  lint?: LintSummary;
+
+  // What the runner ran out of, when it did
+  resource?: ExhaustedResource;
+
+  // Secrets and PII scrubbed from the outbound copy of this context
+  redactions?: RedactionSummary;
+
   // Git context
   changedFiles: string[];
+  changes?: ChangeSet;       // changedFiles with their base and line ranges
+  changeImpact?: ChangeImpact; // Did the change introduce the failing lines?
   recentCommits: string[];
 
   // Fingerprint for memory
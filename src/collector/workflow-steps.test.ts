@@ -0,0 +1,98 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import * as yaml from "yaml";
+import { findStepCommand, resolveStepCommand } from "./workflow-steps.js";
+import type { WorkflowRunContext } from "./types.js";
+
+const WORKFLOW = `
+name: CI
+env:
+  CI: true
+defaults:
+  run:
+    shell: bash
+jobs:
+  test:
+    name: Test on \${{ matrix.os }}
+    runs-on: \${{ matrix.os }}
+    defaults:
+      run:
+        working-directory: packages/api
+    env:
+      NODE_ENV: test
+    steps:
+      - uses: actions/checkout@v4
+      - run: npm ci
+      - name: Run unit tests
+        run: |
+          npm run build
+          npm test -- --runInBand
+        env:
+          TOKEN: \${{ secrets.TOKEN }}
+  lint:
+    runs-on: ubuntu-latest
+    steps:
+      - run: npm run lint
+`;
+
+function runContext(jobName: string, stepName: string, workflowPath?: string): WorkflowRunContext {
+  return {
+    runId: 1,
+    repo: { owner: "owner", repo: "repo" },
+    headSha: "abc123",
+    headBranch: "main",
+    workflowName: "CI",
+    workflowPath,
+    failedJobs: [
+      {
+        jobId: 1,
+        jobName,
+        failedSteps: [{ stepName, conclusion: "failure", startedAt: "", completedAt: "" }],
+        logs: ""
+      }
+    ]
+  };
+}
+
+describe("findStepCommand", () => {
+  it("resolves named steps in jobs with expression names and inherits defaults and env", () => {
+    const command = findStepCommand(yaml.parse(WORKFLOW), "Test on ubuntu-latest", "Run unit tests");
+
+    expect(command).toEqual({
+      jobId: "test",
+      stepName: "Run unit tests",
+      run: "npm run build\nnpm test -- --runInBand",
+      workingDirectory: "packages/api",
+      shell: "bash",
+      env: { CI: "true", NODE_ENV: "test", TOKEN: "${{ secrets.TOKEN }}" }
+    });
+  });
+
+  it("matches unnamed run steps by their default display name", () => {
+    const command = findStepCommand(yaml.parse(WORKFLOW), "lint", "Run npm run lint");
+
+    expect(command?.run).toBe("npm run lint");
+    expect(command?.workingDirectory).toBeUndefined();
+  });
+
+  it("returns undefined for steps without a run script", () => {
+    expect(findStepCommand(yaml.parse(WORKFLOW), "lint", "Run actions/checkout@v4")).toBeUndefined();
+  });
+});
+
+describe("resolveStepCommand", () => {
+  it("finds the workflow by name when the run has no path", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "greenlit-workflows-"));
+    fs.mkdirSync(path.join(root, ".github/workflows"), { recursive: true });
+    fs.writeFileSync(path.join(root, ".github/workflows/release.yml"), "name: Release\njobs: {}\n");
+    fs.writeFileSync(path.join(root, ".github/workflows/ci.yml"), WORKFLOW);
+
+    const command = resolveStepCommand(runContext("lint", "Run npm run lint"), root);
+
+    expect(command?.workflowPath).toBe(".github/workflows/ci.yml");
+    expect(command?.jobId).toBe("lint");
+    expect(resolveStepCommand(runContext("lint", "Run npm run lint", "missing.yml"), root)?.jobId).toBe("lint");
+  });
+});
@@ -0,0 +1,172 @@
+import fs from "fs";
+import path from "path";
+import * as yaml from "yaml";
+import { parseMatrixJobName } from "./matrix.js";
+import type { StepCommand, WorkflowRunContext } from "./types.js";
+
+const WORKFLOW_DIR = ".github/workflows";
+const EXPRESSION_PATTERN = /\$\{\{[\s\S]*?\}\}/g;
+
+interface RunDefaults {
+  shell?: string;
+  "working-directory"?: string;
+}
+
+interface WorkflowStep {
+  name?: string;
+  run?: string;
+  uses?: string;
+  shell?: string;
+  "working-directory"?: string;
+  env?: unknown;
+}
+
+interface WorkflowJob {
+  name?: string;
+  env?: unknown;
+  defaults?: { run?: RunDefaults };
+  steps?: WorkflowStep[];
+}
+
+interface WorkflowFile {
+  name?: string;
+  env?: unknown;
+  defaults?: { run?: RunDefaults };
+  jobs?: Record<string, WorkflowJob>;
+}
+
+/**
+ * Find the `run:` script of the first failed step in the workflow file
+ * for the run. Uses the run's workflow path when it exists locally,
+ * otherwise the workflow in `.github/workflows` with the same name.
+ */
+export function resolveStepCommand(
+  runContext: WorkflowRunContext,
+  rootDir: string = process.cwd()
+): StepCommand | undefined {
+  const workflows = loadWorkflows(runContext, rootDir);
+  if (!workflows.length) return undefined;
+
+  for (const job of runContext.failedJobs) {
+    for (const step of job.failedSteps) {
+      for (const { workflowPath, workflow } of workflows) {
+        const command = findStepCommand(workflow, job.jobName, step.stepName);
+        if (command) return { workflowPath, ...command };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Look up a job and step by their display names (as reported by the API)
+ * and return the step's script with the env, shell and working-directory
+ * it inherits from the job and workflow.
+ */
+export function findStepCommand(
+  workflow: WorkflowFile,
+  jobName: string,
+  stepName: string
+): Omit<StepCommand, "workflowPath"> | undefined {
+  for (const [jobId, job] of Object.entries(workflow.jobs || {})) {
+    if (!job || !matchesJob(jobId, job, jobName)) continue;
+
+    const step = (job.steps || []).find(
+      s => s?.run && matchesDisplayName(s.name ?? `Run ${firstLine(s.run)}`, stepName)
+    );
+    if (!step?.run) continue;
+
+    return {
+      jobId,
+      stepName,
+      run: step.run.trim(),
+      workingDirectory:
+        step["working-directory"] ??
+        job.defaults?.run?.["working-directory"] ??
+        workflow.defaults?.run?.["working-directory"],
+      shell: step.shell ?? job.defaults?.run?.shell ?? workflow.defaults?.run?.shell,
+      env: { ...toEnv(workflow.env), ...toEnv(job.env), ...toEnv(step.env) }
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a value still contains `${{ … }}` expressions that only the
+ * runner can evaluate
+ */
+export function hasExpressions(text: string): boolean {
+  return text.includes("${{");
+}
+
+function loadWorkflows(
+  runContext: WorkflowRunContext,
+  rootDir: string
+): Array<{ workflowPath: string; workflow: WorkflowFile }> {
+  if (runContext.workflowPath) {
+    const workflow = readWorkflow(path.join(rootDir, runContext.workflowPath));
+    if (workflow) return [{ workflowPath: runContext.workflowPath, workflow }];
+  }
+
+  const dir = path.join(rootDir, WORKFLOW_DIR);
+  if (!fs.existsSync(dir)) return [];
+
+  return fs
+    .readdirSync(dir)
+    .filter(file => /\.ya?ml$/.test(file))
+    .sort()
+    .map(file => ({
+      workflowPath: `${WORKFLOW_DIR}/${file}`,
+      workflow: readWorkflow(path.join(dir, file))
+    }))
+    .filter((entry): entry is { workflowPath: string; workflow: WorkflowFile } =>
+      Boolean(entry.workflow) &&
+      // Unnamed workflows are shown under their path
+      (entry.workflow!.name ?? entry.workflowPath) === runContext.workflowName
+    );
+}
+
+function readWorkflow(filePath: string): WorkflowFile | undefined {
+  try {
+    const parsed = yaml.parse(fs.readFileSync(filePath, "utf-8"));
+    return parsed && typeof parsed === "object" ? (parsed as WorkflowFile) : undefined;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`Failed to read workflow ${filePath}:`, error);
+    }
+    return undefined;
+  }
+}
+
+function matchesJob(jobId: string, job: WorkflowJob, jobName: string): boolean {
+  // Matrix jobs without expressions in their name get the values appended
+  const baseName = parseMatrixJobName(jobName)?.baseName;
+  const displayName = job.name ?? jobId;
+  return [jobName, baseName].some(
+    name => name !== undefined && (name === jobId || matchesDisplayName(displayName, name))
+  );
+}
+
+function matchesDisplayName(template: string, actual: string): boolean {
+  if (!hasExpressions(template)) return template.trim() === actual.trim();
+
+  const pattern = template
+    .trim()
+    .split(EXPRESSION_PATTERN)
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".+?");
+  return new RegExp(`^${pattern}$`).test(actual.trim());
+}
+
+function firstLine(script: string): string {
+  return script.trim().split("\n")[0].trim();
+}
+
+function toEnv(value: unknown): Record<string, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([key, v]) => [key, String(v)])
+  );
+}
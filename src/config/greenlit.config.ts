@@ -31,13 +31,17 @@ const BehaviorSchema = z.object({
 
 const RoutingSchema = z.object({
   report_only: z.array(z.string()).default([
-    "secrets", "permissions", "infra_outage", "dependency_registry"
+    "secrets", "permissions", "infra_outage", "dependency_registry", "environment",
+    "resource_exhaustion", "runner_lost", "timeout"
   ]),
   fix_attempt: z.array(z.string()).default([
     "test", "lint", "typecheck", "build"
   ]),
   flake_workflow: z.array(z.string()).default(["flaky"]),
-  max_attempts_per_signature: z.number().default(2)
+  max_attempts_per_signature: z.number().default(2),
+  min_fix_confidence: z.number().min(0).max(1).default(0),
+  // Stricter bar for failures outside the lines the change touched
+  outside_change_min_confidence: z.number().min(0).max(1).default(0.75)
 });
 
 const OutputSchema = z.object({
@@ -57,6 +61,78 @@ const OwnerRoutingSchema = z.object({
   fallback_owner: z.string().default("unassigned")
 });
 
+const TestReportsSchema = z.object({
+  enabled: z.boolean().default(false),
+  artifact_globs: z.array(z.string()).default(["*junit*", "*test-results*", "*test-report*"]),
+  file_globs: z.array(z.string()).default(["**/*.xml", "**/*.json"]),
+  max_failures: z.number().default(50)
+});
+
+const RedactionSchema = z.object({
+  enabled: z.boolean().default(true),
+  emails: z.boolean().default(true),
+  high_entropy: z.boolean().default(true),
+  entropy_threshold: z.number().default(3.5),
+  min_entropy_length: z.number().default(20),
+  patterns: z.array(z.string()).default([])
+});
+
+const GitHubClientSchema = z.object({
+  retries: z.number().default(3),
+  max_rate_limit_wait_seconds: z.number().default(600),
+  cache_dir: z.string().default(".greenlit/cache"),
+  // Least recently used responses are dropped past this size
+  cache_max_mb: z.number().default(500)
+});
+
+const WatchSchema = z.object({
+  cursor_path: z.string().default(".greenlit/watch-cursor.json"),
+  lookback_hours: z.number().default(24),
+  include_workflows: z.array(z.string()).default([]),
+  exclude_workflows: z.array(z.string()).default([])
+});
+
+const ClassificationRuleSchema = z
+  .object({
+    name: z.string().optional(),
+    pattern: z.string().optional(),   // Regex matched against the failed job's log
+    job: z.string().optional(),       // Regex matched against failed job names
+    step: z.string().optional(),      // Regex matched against failed step names
+    workflow: z.string().optional(),  // Regex matched against the workflow name
+    class: z
+      .enum([
+        "deterministic",
+        "flaky",
+        "secrets",
+        "permissions",
+        "infra_outage",
+        "dependency_registry",
+        "environment",
+        "resource_exhaustion",
+        "runner_lost",
+        "timeout",
+        "unknown"
+      ])
+      .optional(),
+    type: z.enum(["test", "lint", "build", "typecheck", "unknown"]).optional(),
+    priority: z.number().default(100)
+  })
+  .refine(rule => rule.class || rule.type, { message: "A rule needs a class or a type" })
+  .refine(rule => rule.pattern || rule.job || rule.step || rule.workflow, {
+    message: "A rule needs a pattern, job, step or workflow to match"
+  });
+
+const ClassificationSchema = z.object({
+  builtin_rules: z.boolean().default(true),
+  rules: z.array(ClassificationRuleSchema).default([])
+});
+
+const AutofixSchema = z.object({
+  enabled: z.boolean().default(true),
+  // `{files}` is replaced with the files that have lint errors
+  commands: z.array(z.string()).default(["npx eslint --fix {files}"])
+});
+
 const ConfigSchema = z.object({
   version: z.number().default(1),
   guardrails: GuardrailsSchema.default({}),
@@ -64,7 +140,13 @@ const ConfigSchema = z.object({
   routing: RoutingSchema.default({}),
   output: OutputSchema.default({}),
   signature_ledger: SignatureLedgerSchema.default({}),
-  owner_routing: OwnerRoutingSchema.default({})
+  owner_routing: OwnerRoutingSchema.default({}),
+  test_reports: TestReportsSchema.default({}),
+  redaction: RedactionSchema.default({}),
+  github: GitHubClientSchema.default({}),
+  watch: WatchSchema.default({}),
+  classification: ClassificationSchema.default({}),
+  autofix: AutofixSchema.default({})
 });
 
 export type GreenlitConfig = z.infer<typeof ConfigSchema>;
@@ -74,6 +156,13 @@ export type Routing = z.infer<typeof RoutingSchema>;
 export type Output = z.infer<typeof OutputSchema>;
 export type SignatureLedgerConfig = z.infer<typeof SignatureLedgerSchema>;
 export type OwnerRoutingConfig = z.infer<typeof OwnerRoutingSchema>;
+export type TestReportsConfig = z.infer<typeof TestReportsSchema>;
+export type RedactionConfig = z.infer<typeof RedactionSchema>;
+export type GitHubClientConfig = z.infer<typeof GitHubClientSchema>;
+export type WatchConfig = z.infer<typeof WatchSchema>;
+export type ClassificationConfig = z.infer<typeof ClassificationSchema>;
+export type ClassificationRule = z.infer<typeof ClassificationRuleSchema>;
+export type AutofixConfig = z.infer<typeof AutofixSchema>;
 
 /**
  * Load and validate configuration from a YAML file
@@ -1,28 +1,27 @@
 #!/usr/bin/env node
 import { Command } from "commander";
-import { Octokit } from "@octokit/rest";
 import chalk from "chalk";
 import * as fs from "fs";
+import * as path from "path";
 
-import { collectFailureContext } from "./collector/github-logs.js";
-import { buildFailureContext } from "./collector/context-builder.js";
+import { loadLogBundle } from "./collector/log-bundle.js";
 import { runTriageAgent } from "./agent/orchestrator.js";
-import { routeFailure } from "./agent/routing.js";
+import { backfillSignatureLedger } from "./agent/backfill.js";
+import { formatRCAMarkdown } from "./publisher/pr-creator.js";
+import { createProvider } from "./providers/index.js";
+import { createGitHubClient } from "./providers/github-client.js";
+import { createSeenCache, createWebhookServer, listCheckSuiteRuns } from "./server/webhooks.js";
 import {
-  computeSignature,
-  loadSignatureLedger,
-  getSignatureMemory,
-  setSignatureThread,
-  saveSignatureLedger,
-  shouldAttemptSignature,
-  updateSignatureLedger
-} from "./agent/signatures.js";
-import { resolveOwnerAssignment } from "./agent/owner-routing.js";
-import { buildFailureCard } from "./agent/failure-card.js";
-import { createFixBranch, commitChanges, pushBranch, getCurrentBranch, cleanupBranch } from "./publisher/branch-manager.js";
-import { createPullRequest, postComment, formatRCAMarkdown } from "./publisher/pr-creator.js";
+  advanceWatchCursor,
+  listFailedRunsSince,
+  listNewFailedRuns,
+  loadWatchCursor,
+  saveWatchCursor
+} from "./server/watch.js";
+import { parseDuration } from "./utils/duration.js";
 import { loadConfig } from "./config/greenlit.config.js";
-import type { TriageResult, FailureContext } from "./collector/types.js";
+import { publishTriage, restoreTriageOutput, triageRun, type TriageOutput } from "./pipeline.js";
+import type { FailureContext, WorkflowRunContext } from "./collector/types.js";
 
 const program = new Command();
 
@@ -37,10 +36,13 @@ program
 program
   .command("triage")
   .description("Analyze a CI failure and produce an incident card")
-  .requiredOption("--run-id <id>", "GitHub Actions run ID")
-  .requiredOption("--repo <owner/repo>", "Repository in owner/repo format")
-  .requiredOption("--branch <branch>", "Branch name")
-  .requiredOption("--sha <sha>", "Commit SHA")
+  .option("--run-id <id>", "GitHub Actions run ID (or GitLab pipeline ID)")
+  .option("--repo <owner/repo>", "Repository in owner/repo format (or GitLab project path)")
+  .option("--provider <name>", "CI provider: github or gitlab", "github")
+  .option("--branch <branch>", "Branch name")
+  .option("--sha <sha>", "Commit SHA")
+  .option("--log-bundle <zip|dir>", "Triage offline from a downloaded log bundle (OPENAI_API_KEY only if the agent runs)")
+  .option("--bundle-metadata <file>", "Run metadata JSON for the log bundle")
   .option("--output <file>", "Output file for results", "greenlit-result.json")
   .option("--config <file>", "Config file path", "greenlit.yml")
   .option("--dry-run", "Run without creating PR")
@@ -49,160 +51,50 @@ program
 
     try {
       // Validate environment
-      if (!process.env.GITHUB_TOKEN) {
-        throw new Error("GITHUB_TOKEN environment variable is required");
-      }
-      if (!process.env.OPENAI_API_KEY) {
-        throw new Error("OPENAI_API_KEY environment variable is required");
+      if (!options.logBundle) {
+        if (!options.runId || !options.repo || !options.branch || !options.sha) {
+          throw new Error("--run-id, --repo, --branch and --sha are required unless --log-bundle is given");
+        }
       }
+      // OPENAI_API_KEY is checked when the agent starts: flakes, escalations
+      // and lint autofixes are triaged without it
 
       // Load configuration
       const config = loadConfig(options.config);
-      const [owner, repo] = options.repo.split("/");
-
-      if (!owner || !repo) {
-        throw new Error("Invalid repo format. Use owner/repo");
-      }
-
-      const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
 
       // ─────────────────────────────────────────────────────────────
       // Step 1: Collect failure context
       // ─────────────────────────────────────────────────────────────
-      console.log(chalk.blue("📥 Collecting failure context..."));
+      let runContext: WorkflowRunContext;
 
-      const runContext = await collectFailureContext(
-        octokit,
-        parseInt(options.runId),
-        owner,
-        repo
-      );
+      if (options.logBundle) {
+        console.log(chalk.blue(`📦 Loading log bundle from ${options.logBundle}...`));
+        runContext = loadLogBundle(options.logBundle, {
+          metadataPath: options.bundleMetadata,
+          testReports: config.test_reports
+        });
+      } else {
+        const provider = createProvider(options.provider, options.repo, config);
 
-      if (runContext.failedJobs.length === 0) {
-        console.log(chalk.yellow("⚠️  No failed jobs found in this run"));
-        process.exit(0);
-      }
+        console.log(chalk.blue(`📥 Collecting failure context from ${provider.name}...`));
 
-      const context = await buildFailureContext(runContext);
-      context.routingDecision = routeFailure(context, config);
-      const signature = computeSignature(context);
-      const ownerAssignment = resolveOwnerAssignment(context, config);
-
-      console.log(chalk.gray(`   Failure Type: ${context.failureType}`));
-      console.log(chalk.gray(`   Failure Class: ${context.failureClass}`));
-      console.log(chalk.gray(`   Routing: ${context.routingDecision}`));
-      console.log(chalk.gray(`   Error: ${context.errorSignature.slice(0, 80)}...`));
-
-      const ledger = loadSignatureLedger(config.signature_ledger.path);
-      const signatureCheck = shouldAttemptSignature(signature, ledger, config);
-      const memory = getSignatureMemory(signatureCheck.record);
-      if (!signatureCheck.allowed) {
-        console.log(chalk.yellow(`⚠️  Skipping fix attempt: ${signatureCheck.reason}`));
-        updateSignatureLedger(signature, ledger, "report-only", {
-          owner: ownerAssignment.owner,
-          resolution: signatureCheck.reason || "Signature attempt blocked"
+        runContext = await provider.collectFailureContext(parseInt(options.runId), {
+          testReports: config.test_reports
         });
-        saveSignatureLedger(config.signature_ledger.path, ledger);
-
-        const result: TriageResult = {
-          success: false,
-          rootCause: context.errorSignature,
-          fixSummary: signatureCheck.reason || "Signature attempt blocked",
-          patchDiff: "",
-          verificationLog: "",
-          confidence: "medium",
-          routingDecision: "report_only" as const,
-          ownerAssignment,
-          memory
-        };
-        result.failureCard = buildFailureCard(context, result, ownerAssignment, memory);
-
-        const output = {
-          success: result.success,
-          signature,
-          context: {
-            runId: context.runId,
-            repo: context.repo,
-            branch: context.branch,
-            sha: context.sha,
-            workflowName: context.workflowName,
-            failureType: context.failureType,
-            failureClass: context.failureClass,
-            routingDecision: context.routingDecision,
-            failedCommand: context.failedCommand,
-            errorSignature: context.errorSignature,
-            relevantFiles: context.relevantFiles,
-            fingerprint: context.fingerprint,
-            evidence: context.evidence
-          },
-          result,
-          timestamp: new Date().toISOString()
-        };
-
-        fs.writeFileSync(options.output, JSON.stringify(output, null, 2));
-        const rcaPath = options.output.replace(".json", "-rca.md");
-        fs.writeFileSync(rcaPath, formatRCAMarkdown(result, context));
-        process.exit(1);
       }
 
-      // ─────────────────────────────────────────────────────────────
-      // Step 2: Run triage agent
-      // ─────────────────────────────────────────────────────────────
-      console.log(chalk.blue("\n🤖 Running triage agent..."));
+      if (runContext.failedJobs.length === 0) {
+        console.log(chalk.yellow("⚠️  No failed jobs found in this run"));
+        process.exit(0);
+      }
 
-      const result = await runTriageAgent(context, config);
-      result.ownerAssignment = ownerAssignment;
-      result.memory = memory;
-      result.failureCard = buildFailureCard(context, result, ownerAssignment, memory);
-      const outcome =
-        result.routingDecision === "report_only"
-          ? "report-only"
-          : result.routingDecision === "flake_workflow"
-          ? "quarantine"
-          : result.success
-          ? "fix"
-          : "failed";
-      updateSignatureLedger(signature, ledger, outcome, {
-        owner: ownerAssignment.owner,
-        resolution: result.fixSummary
+      const { success, output, context, result } = await triageRun(runContext, config, {
+        provider: options.logBundle ? undefined : options.provider
       });
-      saveSignatureLedger(config.signature_ledger.path, ledger);
 
       // ─────────────────────────────────────────────────────────────
-      // Step 3: Write result
+      // Step 2: Write result
       // ─────────────────────────────────────────────────────────────
-      const output = {
-        success: result.success,
-        signature,
-          context: {
-            runId: context.runId,
-            repo: context.repo,
-            branch: context.branch,
-            sha: context.sha,
-            workflowName: context.workflowName,
-            failureType: context.failureType,
-            failureClass: context.failureClass,
-            routingDecision: context.routingDecision,
-            failedCommand: context.failedCommand,
-            errorSignature: context.errorSignature,
-            relevantFiles: context.relevantFiles,
-            fingerprint: context.fingerprint,
-            evidence: context.evidence
-          },
-          result: {
-            rootCause: result.rootCause,
-            fixSummary: result.fixSummary,
-            confidence: result.confidence,
-            routingDecision: result.routingDecision,
-            patchDiff: result.patchDiff,
-            verificationLog: result.verificationLog,
-            ownerAssignment: result.ownerAssignment,
-            memory: result.memory,
-            failureCard: result.failureCard
-          },
-          timestamp: new Date().toISOString()
-        };
-
       fs.writeFileSync(options.output, JSON.stringify(output, null, 2));
       console.log(chalk.gray(`\n📄 Result written to ${options.output}`));
 
@@ -212,9 +104,9 @@ program
       console.log(chalk.gray(`📋 RCA written to ${rcaPath}`));
 
       // ─────────────────────────────────────────────────────────────
-      // Step 4: Summary
+      // Step 3: Summary
       // ─────────────────────────────────────────────────────────────
-      if (result.success) {
+      if (success) {
         console.log(chalk.green("\n✅ Fix generated successfully!"));
         console.log(chalk.gray(`   Confidence: ${result.confidence}`));
         if (!options.dryRun) {
@@ -225,7 +117,7 @@ program
         console.log(chalk.gray(`   Summary: ${result.fixSummary.slice(0, 100)}...`));
       }
 
-      process.exit(result.success ? 0 : 1);
+      process.exit(success ? 0 : 1);
 
     } catch (error) {
       console.error(chalk.red("\n❌ Error:"), error);
@@ -242,131 +134,257 @@ program
   .requiredOption("--result <file>", "Result JSON file from triage")
   .requiredOption("--base-branch <branch>", "Base branch for PR")
   .option("--config <file>", "Config file path", "greenlit.yml")
+  .option("--provider <name>", "CI provider: github or gitlab (defaults to the one used for triage)")
   .option("--comment-only", "Only post comment, don't create PR")
   .action(async (options) => {
     console.log(chalk.green("\n🚀 Greenlit PR Publisher\n"));
 
     try {
-      // Validate environment
-      if (!process.env.GITHUB_TOKEN) {
-        throw new Error("GITHUB_TOKEN environment variable is required");
-      }
-
       // Load result
       if (!fs.existsSync(options.result)) {
         throw new Error(`Result file not found: ${options.result}`);
       }
 
-      const data = JSON.parse(fs.readFileSync(options.result, "utf-8"));
-      const result: TriageResult = data.result;
-      const contextData = data.context || {};
-      const signature = data.signature as string | undefined;
-      const context: FailureContext = {
-        runId: contextData.runId ?? 0,
-        repo: contextData.repo ?? "unknown/unknown",
-        branch: contextData.branch ?? "unknown",
-        sha: contextData.sha ?? "unknown",
-        workflowName: contextData.workflowName ?? "CI",
-        failureType: contextData.failureType ?? "unknown",
-        failureClass: contextData.failureClass ?? "unknown",
-        routingDecision: contextData.routingDecision ?? result.routingDecision ?? "report_only",
-        failedCommand: contextData.failedCommand ?? "unknown",
-        errorSignature: contextData.errorSignature ?? result.rootCause.split("\n")[0],
-        relevantFiles: contextData.relevantFiles ?? [],
-        rawLogs: "",
-        extractedErrors: [],
-        changedFiles: [],
-        recentCommits: [],
-        fingerprint: contextData.fingerprint ?? "unknown",
-        evidence: contextData.evidence
-      };
-
       const config = loadConfig(options.config);
+      const data: TriageOutput = JSON.parse(fs.readFileSync(options.result, "utf-8"));
+      const { context, result, signatures } = restoreTriageOutput(data, config);
+
       const commentOnly = options.commentOnly || !config.behavior.auto_pr;
-      const [owner, repo] = context.repo.split("/");
-      const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
-      const ledger = signature ? loadSignatureLedger(config.signature_ledger.path) : null;
-
-      if (!result.failureCard) {
-        result.failureCard = buildFailureCard(
-          context,
-          result,
-          result.ownerAssignment,
-          result.memory
-        );
-      }
+      const provider = createProvider(options.provider || data.provider || "github", context.repo, config);
 
-      if (commentOnly) {
-        const commentUrl = await postComment(octokit, owner, repo, context, result);
-        const threadUrl = commentUrl;
-        if (signature && threadUrl && ledger) {
-          setSignatureThread(signature, ledger, threadUrl);
-          saveSignatureLedger(config.signature_ledger.path, ledger);
-        }
+      const { prUrl } = await publishTriage(provider, context, result, signatures, config, {
+        baseBranch: options.baseBranch,
+        commentOnly
+      });
+
+      if (prUrl) {
+        console.log(chalk.green(`\n✅ PR created: ${prUrl}`));
+      } else if (commentOnly) {
         console.log(chalk.green("✅ Comment posted"));
-        process.exit(result.success ? 0 : 1);
       }
+      process.exit(result.success ? 0 : 1);
 
-      if (!result.success) {
-        console.log(chalk.yellow("⚠️  No successful fix to publish"));
-        const commentUrl = await postComment(octokit, owner, repo, context, result);
-        if (signature && commentUrl && ledger) {
-          setSignatureThread(signature, ledger, commentUrl);
-          saveSignatureLedger(config.signature_ledger.path, ledger);
-        }
-        process.exit(1);
+    } catch (error) {
+      console.error(chalk.red("\n❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+// ─────────────────────────────────────────────────────────────
+// SERVE command - webhook receiver
+// ─────────────────────────────────────────────────────────────
+program
+  .command("serve")
+  .description("Receive GitHub workflow_run webhooks and triage failed runs")
+  .option("--port <port>", "Port to listen on", "3000")
+  .option("--concurrency <n>", "Failed runs triaged at once", "2")
+  .option("--config <file>", "Config file path", "greenlit.yml")
+  .option("--dry-run", "Triage without posting failure cards")
+  .action(async (options) => {
+    console.log(chalk.green("\n🛰️  Greenlit Webhook Server\n"));
+
+    try {
+      const secret = process.env.GREENLIT_WEBHOOK_SECRET;
+      if (!secret) {
+        throw new Error("GREENLIT_WEBHOOK_SECRET environment variable is required");
+      }
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY environment variable is required");
+      }
+      if (!process.env.GITHUB_TOKEN) {
+        throw new Error("GITHUB_TOKEN environment variable is required");
       }
 
-      // ─────────────────────────────────────────────────────────────
-      // Create branch and PR
-      // ─────────────────────────────────────────────────────────────
-      console.log(chalk.blue("🌿 Creating fix branch..."));
+      const config = loadConfig(options.config);
+      const octokit = createGitHubClient(process.env.GITHUB_TOKEN, config.github);
+      // workflow_run and check_suite both fire for the same run
+      const triagedRuns = createSeenCache();
+
+      const { server, drain } = createWebhookServer({
+        secret,
+        concurrency: parseInt(options.concurrency),
+        handler: async (event) => {
+          const provider = createProvider("github", event.repo, config);
+          const runs = event.runId
+            ? [{ id: event.runId, runAttempt: event.runAttempt }]
+            : await listCheckSuiteRuns(octokit, provider.owner, provider.repo, event.checkSuiteId!);
+
+          for (const run of runs) {
+            const runKey = `${event.repo}#${run.id}#${run.runAttempt ?? 1}`;
+            if (triagedRuns.checkAndAdd(runKey)) continue;
+
+            try {
+              console.log(chalk.blue(`📥 ${event.repo} run ${run.id} failed (delivery ${event.deliveryId})`));
+              const runContext = await provider.collectFailureContext(run.id, {
+                testReports: config.test_reports
+              });
+              if (runContext.failedJobs.length === 0) continue;
+
+              // No checkout of the failing repo here, so fixes become reports
+              const outcome = await triageRun(runContext, config, {
+                provider: "github",
+                allowFixAttempt: false,
+                localCheckout: false
+              });
+              if (options.dryRun) continue;
+
+              const { commentUrl } = await publishTriage(
+                provider,
+                outcome.context,
+                outcome.result,
+                outcome.signatures,
+                config,
+                { baseBranch: event.branch || "main", commentOnly: true }
+              );
+              console.log(chalk.green(`✅ ${event.repo} run ${run.id}: ${commentUrl || "card posted"}`));
+            } catch (error) {
+              // Let the next delivery for this run try again
+              triagedRuns.forget(runKey);
+              throw error;
+            }
+          }
+        }
+      });
 
-      const originalBranch = getCurrentBranch();
-      const branchName = await createFixBranch(
-        options.baseBranch,
-        config.output.branch_prefix
-      );
+      const shutdown = () => {
+        console.log(chalk.gray("\nDraining queued triages..."));
+        server.close();
+        drain().then(() => process.exit(0));
+      };
+      process.on("SIGINT", shutdown);
+      process.on("SIGTERM", shutdown);
+
+      server.listen(parseInt(options.port), () => {
+        console.log(chalk.gray(`   Listening on :${options.port} (concurrency ${options.concurrency})`));
+      });
+
+    } catch (error) {
+      console.error(chalk.red("\n❌ Error:"), error);
+      process.exit(1);
+    }
+  });
 
-      console.log(chalk.blue("💾 Committing changes..."));
+// ─────────────────────────────────────────────────────────────
+// WATCH command - poll for failed runs
+// ─────────────────────────────────────────────────────────────
+program
+  .command("watch")
+  .description("Poll a repository for failed workflow runs and triage each once")
+  .requiredOption("--repo <owner/repo>", "Repository in owner/repo format")
+  .option("--interval <duration>", "Time between polls (e.g. 30s, 5m, 1h)", "5m")
+  .option("--once", "Poll once and exit (for cron)")
+  .option("--publish", "Post a failure card for each triaged run")
+  .option("--output-dir <dir>", "Write a result JSON and RCA per run to this directory")
+  .option("--config <file>", "Config file path", "greenlit.yml")
+  .action(async (options) => {
+    console.log(chalk.green("\n👀 Greenlit Watch\n"));
 
-      const commitMessage = `fix(greenlit): ${context.failureType} - ${result.rootCause.split("\n")[0].slice(0, 50)}
+    try {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY environment variable is required");
+      }
 
-${result.fixSummary.slice(0, 500)}
+      const config = loadConfig(options.config);
+      const interval = parseDuration(options.interval);
+      const lookback = config.watch.lookback_hours * 60 * 60 * 1000;
+      const provider = createProvider("github", options.repo, config);
+      const octokit = createGitHubClient(process.env.GITHUB_TOKEN!, config.github);
 
-Fingerprint: ${context.fingerprint}
-Generated by Greenlit`;
+      for (;;) {
+        const cursor = loadWatchCursor(config.watch.cursor_path, options.repo, lookback);
+        advanceWatchCursor(cursor, lookback);
 
-      await commitChanges(commitMessage);
+        try {
+          const runs = await listNewFailedRuns(octokit, provider.owner, provider.repo, cursor, config.watch);
+          console.log(chalk.gray(`   ${new Date().toISOString()}: ${runs.length} new failed run(s)`));
+
+          for (const run of runs) {
+            console.log(chalk.blue(`\n📥 ${run.name} #${run.id} on ${run.branch} (${run.sha.slice(0, 7)})`));
+            try {
+              const runContext = await provider.collectFailureContext(run.id, {
+                testReports: config.test_reports
+              });
+              if (runContext.failedJobs.length > 0) {
+                // Watch may run outside a checkout of the repo, so fixes become reports
+                const outcome = await triageRun(runContext, config, {
+                  provider: "github",
+                  allowFixAttempt: false,
+                  localCheckout: false
+                });
+                if (options.outputDir) {
+                  fs.mkdirSync(options.outputDir, { recursive: true });
+                  const outputPath = path.join(options.outputDir, `greenlit-result-${run.id}.json`);
+                  fs.writeFileSync(outputPath, JSON.stringify(outcome.output, null, 2));
+                  fs.writeFileSync(outputPath.replace(".json", "-rca.md"), formatRCAMarkdown(outcome.result, outcome.context));
+                }
+                if (options.publish) {
+                  await publishTriage(provider, outcome.context, outcome.result, outcome.signatures, config, {
+                    baseBranch: run.branch,
+                    commentOnly: true
+                  });
+                }
+              }
+            } catch (error) {
+              console.error(chalk.red(`❌ Triage of run ${run.id} failed:`), error);
+            }
+
+            // Recorded even when triage failed so a broken run isn't retried every poll
+            cursor.runs[run.key] = run.createdAt;
+            saveWatchCursor(config.watch.cursor_path, options.repo, cursor);
+          }
+        } catch (error) {
+          console.error(chalk.red("❌ Poll failed:"), error);
+        }
 
-      console.log(chalk.blue("📤 Pushing branch..."));
-      await pushBranch(branchName);
+        if (options.once) break;
+        await new Promise(resolve => setTimeout(resolve, interval));
+      }
 
-      console.log(chalk.blue("🔀 Creating pull request..."));
+    } catch (error) {
+      console.error(chalk.red("\n❌ Error:"), error);
+      process.exit(1);
+    }
+  });
 
-      const prDetails = await createPullRequest(
-        octokit,
-        owner,
-        repo,
-        options.baseBranch,
-        branchName,
-        result,
-        context,
-        config.output.pr_title_template
-      );
+// ─────────────────────────────────────────────────────────────
+// BACKFILL command - seed the signature ledger
+// ─────────────────────────────────────────────────────────────
+program
+  .command("backfill")
+  .description("Seed the signature ledger from past failed runs (no LLM calls)")
+  .requiredOption("--repo <owner/repo>", "Repository in owner/repo format")
+  .option("--since <duration>", "How far back to look (e.g. 7d, 30d)", "30d")
+  .option("--config <file>", "Config file path", "greenlit.yml")
+  .action(async (options) => {
+    console.log(chalk.green("\n🗂️  Greenlit Backfill\n"));
 
-      // Post comment on original commit/PR
-      const commentUrl = await postComment(octokit, owner, repo, context, result, prDetails);
-      const threadUrl = prDetails.prUrl || commentUrl;
-      if (signature && threadUrl && ledger) {
-        setSignatureThread(signature, ledger, threadUrl);
-        saveSignatureLedger(config.signature_ledger.path, ledger);
+    try {
+      const config = loadConfig(options.config);
+      const window = parseDuration(options.since);
+      const since = new Date(Date.now() - window).toISOString();
+      const provider = createProvider("github", options.repo, config);
+      const octokit = createGitHubClient(process.env.GITHUB_TOKEN!, config.github);
+
+      if (window > config.signature_ledger.ttl_days * 24 * 60 * 60 * 1000) {
+        console.log(
+          chalk.yellow(`⚠️  Signatures last seen over signature_ledger.ttl_days (${config.signature_ledger.ttl_days}) ago are pruned on the next triage`)
+        );
       }
 
-      // Cleanup
-      await cleanupBranch(originalBranch);
+      const runs = await listFailedRunsSince(octokit, provider.owner, provider.repo, since);
+      console.log(chalk.blue(`📥 ${runs.length} failed run(s) since ${since}`));
 
-      console.log(chalk.green(`\n✅ PR created: ${prDetails.prUrl}`));
+      const summary = await backfillSignatureLedger(provider, runs, config, (run, signatures) => {
+        const recorded = signatures.map(signature => signature.slice(0, 8)).join(", ");
+        console.log(chalk.gray(`   ${run.createdAt} #${run.id}: ${recorded || "skipped"}`));
+      });
+
+      console.log(
+        chalk.green(
+          `\n✅ Recorded ${summary.recorded} failed job(s) across ${summary.newSignatures} new signature(s); skipped ${summary.skipped} run(s)`
+        )
+      );
+      console.log(chalk.gray(`   Ledger: ${config.signature_ledger.path}`));
 
     } catch (error) {
       console.error(chalk.red("\n❌ Error:"), error);
@@ -0,0 +1,43 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import { triageRun } from "./pipeline.js";
+import { loadSignatureLedger } from "./agent/signatures.js";
+import { getDefaultConfig } from "./config/greenlit.config.js";
+import type { FailedJob, WorkflowRunContext } from "./collector/types.js";
+
+const cell = (jobId: number, jobName: string): FailedJob => ({
+  jobId,
+  jobName,
+  failedSteps: [{ stepName: "Run tests", conclusion: "failure", startedAt: "", completedAt: "" }],
+  logs: "Error: connect ECONNREFUSED 10.0.0.1:443\nProcess completed with exit code 1."
+});
+
+describe("triageRun", () => {
+  it("records every matrix cell folded into a triaged job", async () => {
+    const config = getDefaultConfig();
+    // Flake workflows run without the agent
+    config.routing.report_only = [];
+    config.routing.flake_workflow = ["infra_outage"];
+    config.signature_ledger.path = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "greenlit-ledger-")), "ledger.json");
+    const runContext: WorkflowRunContext = {
+      runId: 7,
+      repo: { owner: "acme", repo: "api" },
+      headSha: "abc123",
+      headBranch: "main",
+      workflowName: "CI",
+      failedJobs: [cell(1, "test (ubuntu-latest, 18)"), cell(2, "test (ubuntu-latest, 20)")]
+    };
+
+    const outcome = await triageRun(runContext, config, { allowFixAttempt: false, localCheckout: false });
+    const ledger = loadSignatureLedger(config.signature_ledger.path);
+
+    expect(outcome.jobs).toHaveLength(1);
+    expect(outcome.context.sameFailureJobs).toEqual(["test (ubuntu-latest, 20)"]);
+    expect(outcome.signatures).toHaveLength(2);
+    expect(outcome.output.signatures).toEqual(outcome.signatures);
+    expect(ledger.records[outcome.signatures[0]]).toMatchObject({ attempts: 1, lastOutcome: "quarantine" });
+    expect(ledger.records[outcome.signatures[1]]).toMatchObject({ attempts: 0, occurrences: 1, runIds: [7] });
+  });
+});
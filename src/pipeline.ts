@@ -0,0 +1,450 @@
+import chalk from "chalk";
+
+import { buildJobFailureContexts } from "./collector/context-builder.js";
+import { scoreClassification } from "./collector/scoring.js";
+import { runTriageAgent } from "./agent/orchestrator.js";
+import { routeFailure } from "./agent/routing.js";
+import {
+  computeSignature,
+  matrixGroupSignature,
+  migrateSignatureRecord,
+  loadSignatureLedger,
+  recordSignatureOccurrence,
+  getSignatureMemory,
+  setSignatureThread,
+  saveSignatureLedger,
+  shouldAttemptSignature,
+  signatureOutcomeSignals,
+  updateSignatureLedger,
+  type SignatureOutcome
+} from "./agent/signatures.js";
+import { resolveOwnerAssignment } from "./agent/owner-routing.js";
+import { buildFailureCard, buildRunRollup } from "./agent/failure-card.js";
+import { createFixBranch, commitChanges, pushBranch, getCurrentBranch, cleanupBranch } from "./publisher/branch-manager.js";
+import { createRedactor } from "./utils/redaction.js";
+import type { GreenlitConfig } from "./config/greenlit.config.js";
+import type { CIProvider, ProviderName } from "./providers/index.js";
+import type { FailureContext, TriageResult, WorkflowRunContext } from "./collector/types.js";
+
+/**
+ * Shape of `greenlit-result.json`, shared by `triage` and `publish`
+ */
+export interface TriageOutput {
+  success: boolean;
+  signature: string;
+  /** Every signature the card covers, for linking them to the posted thread */
+  signatures?: string[];
+  provider?: ProviderName;
+  context: Partial<FailureContext>;
+  result: Partial<TriageResult>;
+  timestamp: string;
+}
+
+export interface JobOutcome {
+  signature: string;
+  /** Redacted context and result, safe to write or post */
+  context: FailureContext;
+  result: TriageResult;
+}
+
+export interface TriageOutcome extends JobOutcome {
+  success: boolean;
+  /** Every failed job, primary first; the primary card carries the rollup */
+  jobs: JobOutcome[];
+  /** Signatures of the triaged jobs and of the matrix cells folded into them */
+  signatures: string[];
+  output: TriageOutput;
+}
+
+export interface TriageOptions {
+  provider?: ProviderName;
+  /**
+   * Allow the agent to edit the working tree. Long-running modes (serve,
+   * watch) have no checkout of the failing repo, so fixes are downgraded
+   * to reports there.
+   */
+  allowFixAttempt?: boolean;
+  /**
+   * The working directory is a checkout of the failing repo. Serve and
+   * watch run elsewhere, so workflow files, git history, CODEOWNERS and
+   * blame are not read from it there.
+   */
+  localCheckout?: boolean;
+}
+
+export interface PublishOptions {
+  baseBranch: string;
+  commentOnly: boolean;
+}
+
+/**
+ * Triage each failed job of a collected run, record the outcomes in the
+ * signature ledger, and return redacted copies ready for output. The
+ * primary failure's card lists every failed job.
+ */
+export async function triageRun(
+  runContext: WorkflowRunContext,
+  config: GreenlitConfig,
+  options: TriageOptions = {}
+): Promise<TriageOutcome> {
+  const contexts = await buildJobFailureContexts(runContext, config.classification, {
+    localCheckout: options.localCheckout
+  });
+  if (contexts.length === 0) {
+    throw new Error(`Run ${runContext.runId} has no failed jobs`);
+  }
+
+  // Matrix cells failing the same way are one failure: triage the first
+  // cell and list the others as evidence
+  const groups = new Map<string, FailureContext[]>();
+  for (const context of contexts) {
+    const key = matrixGroupSignature(context);
+    groups.set(key, [...(groups.get(key) ?? []), context]);
+  }
+  const triaged = [...groups.values()].map(([first, ...rest]) => {
+    if (rest.length) first.sameFailureJobs = rest.map(c => c.evidence?.job || "unknown");
+    return { context: first, sameFailures: rest };
+  });
+
+  const jobs: JobOutcome[] = [];
+  const signatures: string[] = [];
+  for (const [index, { context, sameFailures }] of triaged.entries()) {
+    if (contexts.length > 1) {
+      const same = context.sameFailureJobs?.length ? ` (+${context.sameFailureJobs.length} with the same error)` : "";
+      console.log(
+        chalk.blue(
+          `\n🔎 Job ${index + 1}/${triaged.length}: ${context.evidence?.job}${same}${index === 0 ? " (primary)" : ""}`
+        )
+      );
+    }
+    // Only the primary failure may edit the working tree: one fix branch per run
+    const job = await triageJob(context, config, {
+      allowFixAttempt: index === 0 && options.allowFixAttempt !== false,
+      localCheckout: options.localCheckout
+    });
+    jobs.push(job);
+    signatures.push(job.signature, ...recordSameFailures(config, sameFailures, job.result.ownerAssignment?.owner));
+  }
+
+  const [{ signature, context, result }] = jobs;
+  if (jobs.length > 1 && result.failureCard) {
+    result.failureCard.rollup = buildRunRollup(jobs);
+  }
+
+  return {
+    success: result.success,
+    signature,
+    context,
+    result,
+    jobs,
+    signatures,
+    output: {
+      success: result.success,
+      signature,
+      signatures,
+      provider: options.provider,
+      context: {
+        runId: context.runId,
+        repo: context.repo,
+        branch: context.branch,
+        sha: context.sha,
+        workflowName: context.workflowName,
+        failureType: context.failureType,
+        failureClass: context.failureClass,
+        classification: context.classification,
+        routingDecision: context.routingDecision,
+        failedCommand: context.failedCommand,
+        stepCommand: context.stepCommand,
+        errorSignature: context.errorSignature,
+        logsUnavailable: context.logsUnavailable,
+        relevantFiles: context.relevantFiles,
+        fingerprint: context.fingerprint,
+        evidence: context.evidence,
+        matrix: context.matrix,
+        sameFailureJobs: context.sameFailureJobs,
+        flakeEvidence: context.flakeEvidence,
+        testFailures: context.testFailures,
+        typecheck: context.typecheck,
+        lint: context.lint,
+        resource: context.resource,
+        changeImpact: context.changeImpact,
+        redactions: context.redactions
+      },
+      result: {
+        rootCause: result.rootCause,
+        fixSummary: result.fixSummary,
+        confidence: result.confidence,
+        routingDecision: result.routingDecision,
+        patchDiff: result.patchDiff,
+        verificationLog: result.verificationLog,
+        ownerAssignment: result.ownerAssignment,
+        memory: result.memory,
+        failureCard: result.failureCard
+      },
+      timestamp: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Route and triage one failed job and record the outcome
+ */
+async function triageJob(
+  context: FailureContext,
+  config: GreenlitConfig,
+  options: { allowFixAttempt: boolean; localCheckout?: boolean }
+): Promise<JobOutcome> {
+  const signature = computeSignature(context);
+  const ledger = loadSignatureLedger(config.signature_ledger.path);
+  if (migrateSignatureRecord(ledger, context, signature)) {
+    saveSignatureLedger(config.signature_ledger.path, ledger);
+  }
+  const signatureCheck = shouldAttemptSignature(signature, ledger, config);
+  const memory = getSignatureMemory(signatureCheck.record);
+
+  // How this signature went before is one more classification signal
+  const ledgerSignals = signatureOutcomeSignals(signatureCheck.record);
+  if (context.classification && ledgerSignals.length) {
+    context.classification = scoreClassification([...context.classification.signals, ...ledgerSignals]);
+    context.failureClass = context.classification.classes[0]?.class ?? context.failureClass;
+  }
+
+  context.routingDecision = routeFailure(context, config);
+  if (!options.allowFixAttempt && context.routingDecision === "fix_attempt") {
+    context.routingDecision = "report_only";
+  }
+  const ownerAssignment = resolveOwnerAssignment(context, config, { localCheckout: options.localCheckout });
+
+  console.log(chalk.gray(`   Failure Type: ${context.failureType}`));
+  console.log(chalk.gray(`   Failure Class: ${context.failureClass}${formatConfidence(context)}`));
+  console.log(chalk.gray(`   Routing: ${context.routingDecision}`));
+  console.log(chalk.gray(`   Error: ${context.errorSignature.slice(0, 80)}...`));
+
+  let result: TriageResult;
+  if (!signatureCheck.allowed) {
+    console.log(chalk.yellow(`⚠️  Skipping fix attempt: ${signatureCheck.reason}`));
+    result = {
+      success: false,
+      rootCause: context.errorSignature,
+      fixSummary: signatureCheck.reason || "Signature attempt blocked",
+      patchDiff: "",
+      verificationLog: "",
+      confidence: "medium",
+      routingDecision: "report_only",
+      ownerAssignment,
+      memory
+    };
+    recordOutcome(config, signature, "report-only", context.runId, ownerAssignment.owner, result.fixSummary);
+  } else {
+    console.log(chalk.blue("\n🤖 Running triage agent..."));
+
+    result = await runTriageAgent(context, config);
+    result.ownerAssignment = ownerAssignment;
+    result.memory = memory;
+    const outcome =
+      result.routingDecision === "report_only"
+        ? "report-only"
+        : result.routingDecision === "flake_workflow"
+        ? "quarantine"
+        : result.success
+        ? "fix"
+        : "failed";
+    recordOutcome(config, signature, outcome, context.runId, ownerAssignment.owner, result.fixSummary);
+  }
+
+  const redacted = redactForOutput(context, result, config);
+  if (redacted.context.redactions?.total) {
+    console.log(chalk.gray(`   Redacted ${redacted.context.redactions.total} secret/PII values from output`));
+  }
+
+  return { signature, context: redacted.context, result: redacted.result };
+}
+
+function formatConfidence(context: FailureContext): string {
+  const top = context.classification?.classes[0];
+  return top ? ` (${Math.round(top.probability * 100)}%)` : "";
+}
+
+// Blame and last-commit owners are author emails; redacting them would
+// leave the card without an owner
+const OWNER_KEYS = ["owner", "candidates", "lastOwner"];
+
+/**
+ * Rebuild the context and result from a result file. Result files may
+ * predate redaction or have been edited, so they are scrubbed again.
+ */
+export function restoreTriageOutput(
+  data: TriageOutput,
+  config: GreenlitConfig
+): { context: FailureContext; result: TriageResult; signatures: string[] } {
+  const redactor = createRedactor(config.redaction);
+  const result: TriageResult = {
+    ...redactor.redactValue(data.result, OWNER_KEYS),
+    success: Boolean(data.success)
+  } as TriageResult;
+  const contextData = redactor.redactValue(data.context || {});
+  const context: FailureContext = {
+    runId: contextData.runId ?? 0,
+    repo: contextData.repo ?? "unknown/unknown",
+    branch: contextData.branch ?? "unknown",
+    sha: contextData.sha ?? "unknown",
+    workflowName: contextData.workflowName ?? "CI",
+    failureType: contextData.failureType ?? "unknown",
+    failureClass: contextData.failureClass ?? "unknown",
+    classification: contextData.classification,
+    routingDecision: contextData.routingDecision ?? result.routingDecision ?? "report_only",
+    failedCommand: contextData.failedCommand ?? "unknown",
+    stepCommand: contextData.stepCommand,
+    errorSignature: contextData.errorSignature ?? result.rootCause.split("\n")[0],
+    logsUnavailable: contextData.logsUnavailable,
+    relevantFiles: contextData.relevantFiles ?? [],
+    rawLogs: "",
+    extractedErrors: [],
+    changedFiles: [],
+    recentCommits: [],
+    fingerprint: contextData.fingerprint ?? "unknown",
+    evidence: contextData.evidence,
+    matrix: contextData.matrix,
+    sameFailureJobs: contextData.sameFailureJobs,
+    flakeEvidence: contextData.flakeEvidence,
+    testFailures: contextData.testFailures,
+    typecheck: contextData.typecheck,
+    lint: contextData.lint,
+    resource: contextData.resource,
+    changeImpact: contextData.changeImpact,
+    redactions: contextData.redactions
+  };
+
+  if (!result.failureCard) {
+    result.failureCard = buildFailureCard(context, result, result.ownerAssignment, result.memory);
+  }
+
+  // Every job's signature, so each links to the posted thread
+  const signatures = data.signatures?.length
+    ? data.signatures
+    : result.failureCard.rollup?.jobs.map(job => job.signature) ?? [data.signature].filter(Boolean);
+  return { context, result, signatures };
+}
+
+/**
+ * Post the failure card, or push a fix branch and open a PR for a
+ * successful fix, and link the signatures to the resulting thread.
+ */
+export async function publishTriage(
+  provider: CIProvider,
+  context: FailureContext,
+  result: TriageResult,
+  signatures: string[],
+  config: GreenlitConfig,
+  options: PublishOptions
+): Promise<{ commentUrl?: string; prUrl?: string }> {
+  if (options.commentOnly || !result.success) {
+    if (!options.commentOnly) {
+      console.log(chalk.yellow("⚠️  No successful fix to publish"));
+    }
+    const commentUrl = await provider.postComment(context, result);
+    recordThread(config, signatures, commentUrl);
+    return { commentUrl };
+  }
+
+  console.log(chalk.blue("🌿 Creating fix branch..."));
+
+  const originalBranch = getCurrentBranch();
+  const branchName = await createFixBranch(options.baseBranch, config.output.branch_prefix);
+
+  console.log(chalk.blue("💾 Committing changes..."));
+
+  const commitMessage = `fix(greenlit): ${context.failureType} - ${result.rootCause.split("\n")[0].slice(0, 50)}
+
+${result.fixSummary.slice(0, 500)}
+
+Fingerprint: ${context.fingerprint}
+Generated by Greenlit`;
+
+  await commitChanges(commitMessage);
+
+  console.log(chalk.blue("📤 Pushing branch..."));
+  await pushBranch(branchName);
+
+  console.log(chalk.blue("🔀 Creating pull request..."));
+
+  const prDetails = await provider.createPullRequest(
+    options.baseBranch,
+    branchName,
+    result,
+    context,
+    config.output.pr_title_template
+  );
+
+  // Post comment on original commit/PR
+  const commentUrl = await provider.postComment(context, result, prDetails);
+  recordThread(config, signatures, prDetails.prUrl || commentUrl);
+
+  await cleanupBranch(originalBranch);
+
+  return { commentUrl, prUrl: prDetails.prUrl };
+}
+
+/**
+ * Scrub secrets and PII from the context and result before they are
+ * written to disk or posted, and rebuild the card from the scrubbed copies.
+ */
+function redactForOutput(
+  context: FailureContext,
+  result: TriageResult,
+  config: GreenlitConfig
+): { context: FailureContext; result: TriageResult } {
+  const redactor = createRedactor(config.redaction);
+  const publicContext = redactor.redactValue(context);
+  const publicResult = redactor.redactValue(result, OWNER_KEYS);
+  publicContext.redactions = redactor.summary();
+  publicResult.failureCard = buildFailureCard(
+    publicContext,
+    publicResult,
+    publicResult.ownerAssignment,
+    publicResult.memory
+  );
+  return { context: publicContext, result: publicResult };
+}
+
+// The ledger is re-read right before each write so concurrent triages
+// (serve, watch) don't overwrite each other's updates
+function recordOutcome(
+  config: GreenlitConfig,
+  signature: string,
+  outcome: SignatureOutcome,
+  runId: number,
+  owner: string | undefined,
+  resolution: string
+): void {
+  const ledger = loadSignatureLedger(config.signature_ledger.path);
+  // Local contexts use run id 0
+  updateSignatureLedger(signature, ledger, outcome, { owner, resolution, runId: runId || undefined });
+  saveSignatureLedger(config.signature_ledger.path, ledger);
+}
+
+/**
+ * Count an occurrence of each matrix cell folded into a triaged job, so
+ * the ledger knows a cell's own signature if it later fails alone
+ */
+function recordSameFailures(config: GreenlitConfig, contexts: FailureContext[], owner: string | undefined): string[] {
+  if (!contexts.length) return [];
+  const ledger = loadSignatureLedger(config.signature_ledger.path);
+  const seenAt = new Date().toISOString();
+  const signatures = contexts.map(context => {
+    const signature = computeSignature(context);
+    recordSignatureOccurrence(signature, ledger, seenAt, { owner, runId: context.runId || undefined });
+    return signature;
+  });
+  saveSignatureLedger(config.signature_ledger.path, ledger);
+  return signatures;
+}
+
+function recordThread(config: GreenlitConfig, signatures: string[], threadUrl: string | undefined): void {
+  if (!signatures.length || !threadUrl) return;
+  const ledger = loadSignatureLedger(config.signature_ledger.path);
+  for (const signature of signatures) {
+    setSignatureThread(signature, ledger, threadUrl);
+  }
+  saveSignatureLedger(config.signature_ledger.path, ledger);
+}
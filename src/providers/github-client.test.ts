@@ -0,0 +1,138 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import { computeRetryDelay, createGitHubClient, pruneCache } from "./github-client.js";
+import { getDefaultConfig } from "../config/greenlit.config.js";
+
+const hits: Record<string, number> = {};
+
+const server = http.createServer((req, res) => {
+  const url = req.url!;
+  hits[url] = (hits[url] || 0) + 1;
+
+  if (url === "/repos/acme/api/actions/runs/1") {
+    if (hits[url] === 1) {
+      res.writeHead(502, { "Content-Type": "application/json" });
+      return res.end(JSON.stringify({ message: "Bad Gateway" }));
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    return res.end(JSON.stringify({ id: 1, name: "CI" }));
+  }
+  if (url === "/repos/acme/api/actions/jobs/7/logs") {
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    return res.end("npm ERR! Test failed");
+  }
+  res.writeHead(404, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ message: "Not Found" }));
+});
+
+let baseUrl = "";
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+function clientConfig() {
+  return {
+    ...getDefaultConfig().github,
+    cache_dir: fs.mkdtempSync(path.join(os.tmpdir(), "greenlit-cache-"))
+  };
+}
+
+describe("createGitHubClient", () => {
+  it("retries server errors with backoff", async () => {
+    const delays: number[] = [];
+    const octokit = createGitHubClient("t", clientConfig(), {
+      baseUrl,
+      sleep: async ms => {
+        delays.push(ms);
+      }
+    });
+
+    const { data } = await octokit.rest.actions.getWorkflowRun({ owner: "acme", repo: "api", run_id: 1 });
+
+    expect(data.name).toBe("CI");
+    expect(delays).toEqual([1000]);
+  });
+
+  it("serves completed job logs from the disk cache", async () => {
+    const config = clientConfig();
+    const params = { owner: "acme", repo: "api", job_id: 7 };
+
+    const first = await createGitHubClient("t", config, { baseUrl }).rest.actions.downloadJobLogsForWorkflowRun(params);
+    const second = await createGitHubClient("t", config, { baseUrl }).rest.actions.downloadJobLogsForWorkflowRun(params);
+
+    expect(second.data).toEqual(first.data);
+    expect(hits["/repos/acme/api/actions/jobs/7/logs"]).toBe(1);
+    expect(fs.readdirSync(config.cache_dir).filter(f => f.endsWith(".json"))).toHaveLength(1);
+  });
+
+  it("does not retry client errors", async () => {
+    const octokit = createGitHubClient("t", clientConfig(), { baseUrl, sleep: async () => {} });
+
+    await expect(octokit.rest.actions.getWorkflowRun({ owner: "acme", repo: "api", run_id: 2 })).rejects.toMatchObject({
+      status: 404
+    });
+    expect(hits["/repos/acme/api/actions/runs/2"]).toBe(1);
+  });
+});
+
+describe("computeRetryDelay", () => {
+  const config = getDefaultConfig().github;
+  const now = 1_700_000_000_000;
+
+  it("waits for the primary rate limit reset", () => {
+    const error = {
+      status: 403,
+      response: { headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(now / 1000 + 30) } }
+    };
+
+    expect(computeRetryDelay(error, 0, config, "GET", now)).toBe(31_000);
+    expect(computeRetryDelay(error, 0, { ...config, max_rate_limit_wait_seconds: 10 }, "GET", now)).toBeNull();
+  });
+
+  it("honors retry-after for secondary rate limits", () => {
+    const error = { status: 403, message: "You have exceeded a secondary rate limit", response: { headers: { "retry-after": "5" } } };
+
+    expect(computeRetryDelay(error, 1, config, "GET", now)).toBe(5000);
+    expect(computeRetryDelay({ status: 403, message: "Resource not accessible" }, 0, config, "GET", now)).toBeNull();
+  });
+
+  it("retries writes only on rate limits, and never errors without a status", () => {
+    const rateLimited = { status: 429, response: { headers: { "retry-after": "5" } } };
+
+    expect(computeRetryDelay({ status: 502 }, 0, config, "POST", now)).toBeNull();
+    expect(computeRetryDelay({ status: 500, message: "socket hang up" }, 0, config, "PATCH", now)).toBeNull();
+    expect(computeRetryDelay(rateLimited, 0, config, "POST", now)).toBe(5000);
+    expect(computeRetryDelay({ message: "Cannot read properties of undefined" }, 0, config, "GET", now)).toBeNull();
+  });
+
+  it("stops after the configured number of retries", () => {
+    expect(computeRetryDelay({ status: 503 }, 2, config, "GET", now)).toBe(4000);
+    expect(computeRetryDelay({ status: 503 }, config.retries, config, "GET", now)).toBeNull();
+  });
+});
+
+describe("pruneCache", () => {
+  it("drops the least recently used responses past the size limit", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "greenlit-cache-"));
+    for (const [index, name] of ["old", "mid", "new"].entries()) {
+      fs.writeFileSync(path.join(dir, `${name}.json`), "x".repeat(100));
+      const usedAt = new Date(Date.UTC(2026, 9, 1, index));
+      fs.utimesSync(path.join(dir, `${name}.json`), usedAt, usedAt);
+    }
+    fs.writeFileSync(path.join(dir, ".gitignore"), "*\n");
+
+    pruneCache(dir, 250);
+
+    expect(fs.readdirSync(dir).sort()).toEqual([".gitignore", "mid.json", "new.json"]);
+  });
+});
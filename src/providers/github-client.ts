@@ -0,0 +1,197 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { Octokit } from "@octokit/rest";
+import type { GitHubClientConfig } from "../config/greenlit.config.js";
+
+// Responses that never change once they can be fetched
+const IMMUTABLE_ROUTES = [
+  "/repos/{owner}/{repo}/actions/jobs/{job_id}/logs",
+  "/repos/{owner}/{repo}/actions/artifacts/{artifact_id}/{archive_format}"
+];
+
+// A failed POST may still have been applied; only these are safe to repeat
+const IDEMPOTENT_METHODS = ["GET", "HEAD"];
+
+const MAX_BACKOFF_MS = 30_000;
+const SECONDARY_LIMIT_WAIT_MS = 60_000;
+
+type GitHubResponse = Awaited<ReturnType<Octokit["request"]>>;
+
+interface CachedResponse {
+  status: number;
+  url: string;
+  headers: Record<string, unknown>;
+  encoding: "base64" | "json";
+  data: unknown;
+}
+
+interface RequestFailure {
+  status?: number;
+  message?: string;
+  response?: { headers?: Record<string, string | number | undefined> };
+}
+
+export interface GitHubClientOptions {
+  baseUrl?: string;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Create an Octokit client that retries reads on 5xx and network errors
+ * with backoff, waits out primary and secondary rate limits, and caches
+ * immutable responses (completed job logs, artifacts) on disk.
+ */
+export function createGitHubClient(
+  token: string,
+  config: GitHubClientConfig,
+  options: GitHubClientOptions = {}
+): Octokit {
+  const octokit = new Octokit({ auth: token, baseUrl: options.baseUrl });
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+  octokit.hook.wrap("request", async (request, requestOptions) => {
+    const cacheFile =
+      config.cache_dir && IMMUTABLE_ROUTES.includes(String(requestOptions.url))
+        ? path.join(config.cache_dir, `${cacheKey(octokit.request.endpoint.parse(requestOptions).url)}.json`)
+        : undefined;
+
+    const cached = cacheFile ? readCachedResponse(cacheFile) : undefined;
+    if (cached) return cached;
+
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        const response = await request(requestOptions);
+        if (cacheFile) {
+          writeCachedResponse(cacheFile, response);
+          pruneCache(path.dirname(cacheFile), config.cache_max_mb * 1024 * 1024);
+        }
+        return response;
+      } catch (error) {
+        const failure = error as RequestFailure;
+        const delay = computeRetryDelay(failure, attempt, config, String(requestOptions.method));
+        if (delay === null) throw error;
+
+        console.warn(
+          `GitHub ${requestOptions.method} ${requestOptions.url} failed (${failure.response ? failure.status : "network"}); retrying in ${Math.ceil(delay / 1000)}s`
+        );
+        await sleep(delay);
+      }
+    }
+  });
+
+  return octokit;
+}
+
+/**
+ * How long to wait before retrying a failed request, or null to give up.
+ * Rate limits wait until the reset time (primary) or `retry-after`
+ * (secondary), for any method: GitHub applied nothing. Server and network
+ * errors (which Octokit reports as a 500 without a response) back off
+ * exponentially, for reads only. Errors without a status are not from
+ * the network and are never retried.
+ */
+export function computeRetryDelay(
+  error: RequestFailure,
+  attempt: number,
+  config: GitHubClientConfig,
+  method: string = "GET",
+  now: number = Date.now()
+): number | null {
+  if (attempt >= config.retries) return null;
+
+  const status = error.status;
+  const headers = error.response?.headers ?? {};
+  const maxWait = config.max_rate_limit_wait_seconds * 1000;
+
+  if (status === 403 || status === 429) {
+    let wait: number | null = null;
+    if (headers["retry-after"] !== undefined) {
+      wait = Number(headers["retry-after"]) * 1000;
+    } else if (String(headers["x-ratelimit-remaining"]) === "0" && headers["x-ratelimit-reset"] !== undefined) {
+      wait = Math.max(0, Number(headers["x-ratelimit-reset"]) * 1000 - now) + 1000;
+    } else if (/secondary rate limit/i.test(error.message || "")) {
+      wait = SECONDARY_LIMIT_WAIT_MS;
+    }
+    if (wait === null || Number.isNaN(wait) || wait > maxWait) return null;
+    return wait;
+  }
+
+  if (status !== undefined && status >= 500 && IDEMPOTENT_METHODS.includes(method.toUpperCase())) {
+    return Math.min(MAX_BACKOFF_MS, 1000 * 2 ** attempt);
+  }
+
+  return null;
+}
+
+function cacheKey(url: string): string {
+  return createHash("sha256").update(url).digest("hex").slice(0, 32);
+}
+
+function readCachedResponse(file: string): GitHubResponse | undefined {
+  try {
+    const cached = JSON.parse(fs.readFileSync(file, "utf-8")) as CachedResponse;
+    // The modification time doubles as the last use, for pruning
+    const now = new Date();
+    fs.utimes(file, now, now, () => {});
+    const data =
+      cached.encoding === "base64"
+        ? toArrayBuffer(Buffer.from(String(cached.data), "base64"))
+        : cached.data;
+    return { status: cached.status, url: cached.url, headers: cached.headers, data } as GitHubResponse;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeCachedResponse(file: string, response: GitHubResponse): void {
+  const { data } = response;
+  const binary = data instanceof ArrayBuffer || Buffer.isBuffer(data);
+  const cached: CachedResponse = {
+    status: response.status,
+    url: response.url,
+    headers: response.headers,
+    encoding: binary ? "base64" : "json",
+    data: binary ? Buffer.from(data instanceof ArrayBuffer ? new Uint8Array(data) : data).toString("base64") : data
+  };
+
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Keep the cache out of fix commits, which stage the whole work tree
+    const ignoreFile = path.join(path.dirname(file), ".gitignore");
+    if (!fs.existsSync(ignoreFile)) fs.writeFileSync(ignoreFile, "*\n");
+    fs.writeFileSync(file, JSON.stringify(cached));
+  } catch (error) {
+    console.warn(`Failed to cache GitHub response at ${file}:`, error);
+  }
+}
+
+/**
+ * Delete the least recently used cached responses until the cache fits
+ * in `maxBytes`. Long-running modes would otherwise fill the disk.
+ */
+export function pruneCache(dir: string, maxBytes: number): void {
+  try {
+    const files = fs
+      .readdirSync(dir)
+      .filter(name => name.endsWith(".json"))
+      .map(name => {
+        const stat = fs.statSync(path.join(dir, name));
+        return { file: path.join(dir, name), size: stat.size, usedAt: stat.mtimeMs };
+      })
+      .sort((a, b) => a.usedAt - b.usedAt);
+
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    for (const { file, size } of files) {
+      if (total <= maxBytes) break;
+      fs.rmSync(file, { force: true });
+      total -= size;
+    }
+  } catch (error) {
+    console.warn(`Failed to prune the GitHub response cache in ${dir}:`, error);
+  }
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
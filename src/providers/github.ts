@@ -0,0 +1,21 @@
+import { Octokit } from "@octokit/rest";
+import { collectFailureContext } from "../collector/github-logs.js";
+import { createPullRequest, postComment } from "../publisher/pr-creator.js";
+import type { CIProvider } from "./types.js";
+
+/**
+ * GitHub Actions provider backed by Octokit
+ */
+export function createGitHubProvider(octokit: Octokit, owner: string, repo: string): CIProvider {
+  return {
+    name: "github",
+    owner,
+    repo,
+    collectFailureContext: (runId, options = {}) =>
+      collectFailureContext(octokit, runId, owner, repo, options),
+    postComment: (context, result, prDetails) =>
+      postComment(octokit, owner, repo, context, result, prDetails),
+    createPullRequest: (baseBranch, headBranch, result, context, titleTemplate) =>
+      createPullRequest(octokit, owner, repo, baseBranch, headBranch, result, context, titleTemplate)
+  };
+}
@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { createGitLabProvider } from "./gitlab.js";
+import type { FailureContext, TriageResult } from "../collector/types.js";
+
+const PROJECT = "/api/v4/projects/acme%2Fplatform%2Fapi";
+
+const TRACE = [
+  "\u001b[0Ksection_start:1700000000:prepare_script\r\u001b[0KPreparing environment",
+  "section_end:1700000001:prepare_script\r\u001b[0K",
+  "section_start:1700000002:step_script\r\u001b[0KExecuting \"step_script\" stage",
+  "$ npm test",
+  "FAIL src/math.test.ts",
+  "section_end:1700000003:step_script\r\u001b[0K",
+  "ERROR: Job failed: exit code 1"
+].join("\n");
+
+const requests: Array<{ method: string; url: string; body: string }> = [];
+
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", chunk => (body += chunk));
+  req.on("end", () => {
+    requests.push({ method: req.method!, url: req.url!, body });
+    const json = (data: unknown, headers: Record<string, string> = {}) => {
+      res.writeHead(200, { "Content-Type": "application/json", ...headers });
+      res.end(JSON.stringify(data));
+    };
+
+    const url = req.url!;
+    if (url === `${PROJECT}/pipelines/55`) {
+      return json({ id: 55, sha: "abc1234def", ref: "main", name: null });
+    }
+    if (url.startsWith(`${PROJECT}/pipelines/55/jobs`)) {
+      const job = (id: number, name: string, status: string) => ({
+        id, name, status, stage: "test", allow_failure: false, started_at: null, finished_at: null
+      });
+      return /[?&]page=1$/.test(url)
+        ? json([job(1, "test: [ubuntu, 18]", "failed")], { "x-next-page": "2" })
+        : json([job(2, "test: [ubuntu, 20]", "success")], { "x-next-page": "" });
+    }
+    if (url === `${PROJECT}/jobs/1/trace`) {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      return res.end(TRACE);
+    }
+    if (url === `${PROJECT}/repository/commits/abc1234def/merge_requests`) {
+      return json([{ iid: 7, web_url: "https://gitlab.example/acme/platform/api/-/merge_requests/7" }]);
+    }
+    if (url === `${PROJECT}/merge_requests/7/notes`) {
+      return json({ id: 99 });
+    }
+    res.writeHead(404);
+    res.end("not found");
+  });
+});
+
+let baseUrl = "";
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe("createGitLabProvider", () => {
+  it("collects failed jobs across pages with the script section as the step log", async () => {
+    const provider = createGitLabProvider({ baseUrl, token: "t", projectPath: "acme/platform/api" });
+    const context = await provider.collectFailureContext(55);
+
+    expect(provider.owner).toBe("acme/platform");
+    expect(provider.repo).toBe("api");
+    expect(context).toMatchObject({ runId: 55, headSha: "abc1234def", headBranch: "main", workflowName: "pipeline" });
+    expect(context.jobs?.map(j => j.conclusion)).toEqual(["failure", "success"]);
+    expect(context.failedJobs).toHaveLength(1);
+    expect(context.failedJobs[0].matrix).toEqual({ baseName: "test", values: ["ubuntu", "18"] });
+    expect(context.failedJobs[0].failedSteps[0].logs).toContain("FAIL src/math.test.ts");
+    expect(context.failedJobs[0].failedSteps[0].logs).not.toContain("Preparing environment");
+  });
+
+  it("posts the failure card as a merge request note", async () => {
+    const provider = createGitLabProvider({ baseUrl, token: "t", projectPath: "acme/platform/api" });
+    const context = {
+      runId: 55,
+      repo: "acme/platform/api",
+      branch: "main",
+      sha: "abc1234def",
+      workflowName: "pipeline",
+      failureType: "test",
+      failureClass: "deterministic",
+      routingDecision: "report_only",
+      failedCommand: "npm test",
+      errorSignature: "FAIL src/math.test.ts",
+      relevantFiles: [],
+      rawLogs: "",
+      extractedErrors: [],
+      changedFiles: [],
+      recentCommits: [],
+      fingerprint: "f"
+    } as FailureContext;
+    const result: TriageResult = {
+      success: false,
+      rootCause: "Assertion failure",
+      fixSummary: "Report only",
+      patchDiff: "",
+      verificationLog: "",
+      confidence: "low",
+      routingDecision: "report_only"
+    };
+
+    const url = await provider.postComment(context, result);
+
+    expect(url).toBe("https://gitlab.example/acme/platform/api/-/merge_requests/7#note_99");
+    const note = requests.find(r => r.method === "POST" && r.url.endsWith("/merge_requests/7/notes"));
+    expect(JSON.parse(note!.body).body).toContain("Assertion failure");
+  });
+});
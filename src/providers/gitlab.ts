@@ -0,0 +1,247 @@
+import { compactLogs } from "../collector/log-compactor.js";
+import { JOB_LOG_BUDGET } from "../collector/log-archive.js";
+import { parseMatrixJobName } from "../collector/matrix.js";
+import { formatCommentBody, formatPRBody, formatTitle } from "../publisher/pr-creator.js";
+import type { FailedJob, JobSummary, TestFailure } from "../collector/types.js";
+import type { CIProvider } from "./types.js";
+
+export interface GitLabOptions {
+  baseUrl: string;           // e.g. https://gitlab.com
+  token: string;
+  projectPath: string;       // group/subgroup/project
+}
+
+interface GitLabPipeline {
+  id: number;
+  sha: string;
+  ref: string;
+  name?: string | null;
+}
+
+interface GitLabJob {
+  id: number;
+  name: string;
+  stage: string;
+  status: string;
+  allow_failure: boolean;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+interface GitLabMergeRequest {
+  iid: number;
+  web_url: string;
+}
+
+interface GitLabTestReport {
+  test_suites: Array<{
+    name: string;
+    test_cases: Array<{
+      status: string;
+      name: string;
+      classname?: string;
+      file?: string | null;
+      system_output?: string | null;
+      stack_trace?: string | null;
+    }>;
+  }>;
+}
+
+// Job traces wrap each phase in `section_start:<ts>:<name>` … `section_end:<ts>:<name>`
+const SCRIPT_SECTION_PATTERN =
+  /section_start:\d+:step_script[^\n]*\n([\s\S]*?)(?:section_end:\d+:step_script|$)/;
+
+/**
+ * GitLab CI provider backed by the REST API (v4)
+ */
+export function createGitLabProvider(options: GitLabOptions): CIProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const project = encodeURIComponent(options.projectPath);
+  const separator = options.projectPath.lastIndexOf("/");
+  const owner = options.projectPath.slice(0, separator);
+  const repo = options.projectPath.slice(separator + 1);
+
+  const request = async (method: string, path: string, body?: unknown): Promise<Response> => {
+    const response = await fetch(`${baseUrl}/api/v4${path}`, {
+      method,
+      headers: {
+        "PRIVATE-TOKEN": options.token,
+        ...(body ? { "Content-Type": "application/json" } : {})
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    if (!response.ok) {
+      const text = await response.text().catch(() => "");
+      throw new Error(`GitLab API ${method} ${path} failed: ${response.status} ${text.slice(0, 200)}`);
+    }
+    return response;
+  };
+
+  const getJson = async <T>(path: string): Promise<T> => (await request("GET", path)).json() as Promise<T>;
+
+  const postJson = async <T>(path: string, body: unknown): Promise<T> =>
+    (await request("POST", path, body)).json() as Promise<T>;
+
+  const paginate = async <T>(path: string): Promise<T[]> => {
+    const items: T[] = [];
+    let page: string | null = "1";
+    while (page) {
+      const joiner = path.includes("?") ? "&" : "?";
+      const response: Response = await request("GET", `${path}${joiner}per_page=100&page=${page}`);
+      items.push(...((await response.json()) as T[]));
+      page = response.headers.get("x-next-page") || null;
+    }
+    return items;
+  };
+
+  return {
+    name: "gitlab",
+    owner,
+    repo,
+
+    async collectFailureContext(pipelineId, collectOptions = {}) {
+      const pipeline = await getJson<GitLabPipeline>(`/projects/${project}/pipelines/${pipelineId}`);
+      const jobs = await paginate<GitLabJob>(`/projects/${project}/pipelines/${pipelineId}/jobs`);
+
+      const jobSummaries: JobSummary[] = jobs.map(job => ({
+        jobId: job.id,
+        jobName: job.name,
+        conclusion: toConclusion(job.status),
+        matrix: parseMatrixJobName(job.name)
+      }));
+
+      const failedJobs: FailedJob[] = [];
+      for (const job of jobs.filter(j => j.status === "failed" && !j.allow_failure)) {
+        let trace = "";
+        let unavailable: string | undefined;
+        try {
+          trace = await (await request("GET", `/projects/${project}/jobs/${job.id}/trace`)).text();
+          if (!trace.trim()) unavailable = "GitLab returned an empty trace";
+        } catch (error) {
+          console.warn(`Failed to fetch trace for job ${job.id}:`, error);
+          unavailable = `trace download failed: ${error instanceof Error ? error.message : String(error)}`;
+        }
+
+        const script = trace.match(SCRIPT_SECTION_PATTERN)?.[1];
+        failedJobs.push({
+          jobId: job.id,
+          jobName: job.name,
+          failedSteps: [
+            {
+              stepName: `${job.stage}: script`,
+              conclusion: "failure",
+              startedAt: job.started_at || "",
+              completedAt: job.finished_at || "",
+              logs: script ? compactLogs(script, JOB_LOG_BUDGET) : undefined
+            }
+          ],
+          logs: compactLogs(trace, JOB_LOG_BUDGET),
+          logsUnavailable: unavailable,
+          matrix: parseMatrixJobName(job.name)
+        });
+      }
+
+      let testFailures: TestFailure[] = [];
+      if (collectOptions.testReports?.enabled) {
+        try {
+          const report = await getJson<GitLabTestReport>(
+            `/projects/${project}/pipelines/${pipelineId}/test_report`
+          );
+          testFailures = toTestFailures(report).slice(0, collectOptions.testReports.max_failures);
+        } catch (error) {
+          console.warn("Failed to fetch pipeline test report:", error);
+        }
+      }
+
+      return {
+        runId: pipeline.id,
+        repo: { owner, repo },
+        headSha: pipeline.sha,
+        headBranch: pipeline.ref || "unknown",
+        workflowName: pipeline.name || "pipeline",
+        failedJobs,
+        jobs: jobSummaries,
+        testFailures
+      };
+    },
+
+    async postComment(context, result, prDetails) {
+      const body = formatCommentBody(result, context, prDetails);
+      const mergeRequests = await getJson<GitLabMergeRequest[]>(
+        `/projects/${project}/repository/commits/${context.sha}/merge_requests`
+      );
+
+      if (mergeRequests.length > 0) {
+        const mr = mergeRequests[0];
+        const note = await postJson<{ id: number }>(`/projects/${project}/merge_requests/${mr.iid}/notes`, {
+          body
+        });
+        console.log(`   Comment posted on MR !${mr.iid}`);
+        return `${mr.web_url}#note_${note.id}`;
+      }
+
+      await request("POST", `/projects/${project}/repository/commits/${context.sha}/comments`, {
+        note: body
+      });
+      console.log(`   Comment posted on commit ${context.sha.substring(0, 7)}`);
+      return `${baseUrl}/${options.projectPath}/-/commit/${context.sha}`;
+    },
+
+    async createPullRequest(baseBranch, headBranch, result, context, titleTemplate) {
+      const runUrl = `${baseUrl}/${options.projectPath}/-/pipelines/${context.runId}`;
+      const labels = ["greenlit", "auto-fix"];
+      if (result.confidence) {
+        labels.push(`confidence-${result.confidence}`);
+      }
+
+      const mr = await postJson<GitLabMergeRequest>(`/projects/${project}/merge_requests`, {
+        source_branch: headBranch,
+        target_branch: baseBranch,
+        title: formatTitle(titleTemplate, result, context),
+        description: formatPRBody(result, context, runUrl),
+        labels: labels.join(",")
+      });
+
+      console.log(`   MR created: ${mr.web_url}`);
+
+      return {
+        prNumber: mr.iid,
+        prUrl: mr.web_url,
+        branchName: headBranch
+      };
+    }
+  };
+}
+
+function toConclusion(status: string): string {
+  switch (status) {
+    case "failed":
+      return "failure";
+    case "success":
+      return "success";
+    case "canceled":
+      return "cancelled";
+    default:
+      return status;
+  }
+}
+
+function toTestFailures(report: GitLabTestReport): TestFailure[] {
+  return report.test_suites.flatMap(suite =>
+    suite.test_cases
+      .filter(test => test.status === "failed" || test.status === "error")
+      .map(test => {
+        const details = (test.system_output || test.stack_trace || "").trim();
+        return {
+          source: "junit" as const,
+          // GitLab names each report suite after the job that uploaded it
+          job: suite.name,
+          suite: test.classname || suite.name,
+          name: test.name,
+          file: test.file || undefined,
+          message: details.split("\n")[0] || test.status,
+          stack: test.stack_trace || undefined
+        };
+      })
+  );
+}
@@ -0,0 +1,46 @@
+import { createGitHubClient } from "./github-client.js";
+import { createGitHubProvider } from "./github.js";
+import { createGitLabProvider } from "./gitlab.js";
+import type { GreenlitConfig } from "../config/greenlit.config.js";
+import type { CIProvider, ProviderName } from "./types.js";
+
+export type { CIProvider, CollectOptions, ProviderName } from "./types.js";
+
+/**
+ * Name of the token environment variable each provider needs
+ */
+export function providerTokenVariable(name: ProviderName): string {
+  return name === "gitlab" ? "GITLAB_TOKEN" : "GITHUB_TOKEN";
+}
+
+/**
+ * Create a CI provider for `owner/repo` (GitHub) or a GitLab project path,
+ * reading credentials from the environment.
+ */
+export function createProvider(name: string, repoPath: string, config: GreenlitConfig): CIProvider {
+  if (name !== "github" && name !== "gitlab") {
+    throw new Error(`Unknown provider: ${name}. Use github or gitlab`);
+  }
+
+  const token = process.env[providerTokenVariable(name)];
+  if (!token) {
+    throw new Error(`${providerTokenVariable(name)} environment variable is required`);
+  }
+
+  if (name === "gitlab") {
+    if (!repoPath.includes("/")) {
+      throw new Error("Invalid project format. Use group/project");
+    }
+    return createGitLabProvider({
+      baseUrl: process.env.GITLAB_URL || process.env.CI_SERVER_URL || "https://gitlab.com",
+      token,
+      projectPath: repoPath
+    });
+  }
+
+  const [owner, repo] = repoPath.split("/");
+  if (!owner || !repo) {
+    throw new Error("Invalid repo format. Use owner/repo");
+  }
+  return createGitHubProvider(createGitHubClient(token, config.github), owner, repo);
+}
@@ -0,0 +1,43 @@
+import type {
+  FailureContext,
+  PRDetails,
+  TriageResult,
+  WorkflowRunContext
+} from "../collector/types.js";
+import type { TestReportsConfig } from "../config/greenlit.config.js";
+
+export type ProviderName = "github" | "gitlab";
+
+export interface CollectOptions {
+  testReports?: TestReportsConfig;
+}
+
+/**
+ * A CI host Greenlit can read failures from and publish results to.
+ * Everything downstream of collection (classification, routing, the failure
+ * card and the signature ledger) is provider-independent.
+ */
+export interface CIProvider {
+  name: ProviderName;
+  owner: string;
+  repo: string;
+
+  /** Collect the failed jobs of a run (GitHub) or pipeline (GitLab) */
+  collectFailureContext(runId: number, options?: CollectOptions): Promise<WorkflowRunContext>;
+
+  /** Post the failure card on the change request for the commit, or on the commit */
+  postComment(
+    context: FailureContext,
+    result: TriageResult,
+    prDetails?: PRDetails
+  ): Promise<string | undefined>;
+
+  /** Open a pull/merge request for a pushed fix branch */
+  createPullRequest(
+    baseBranch: string,
+    headBranch: string,
+    result: TriageResult,
+    context: FailureContext,
+    titleTemplate: string
+  ): Promise<PRDetails>;
+}
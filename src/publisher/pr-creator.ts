@@ -1,5 +1,16 @@
 import { Octokit } from "@octokit/rest";
-import type { TriageResult, PRDetails, FailureContext, FailureCard } from "../collector/types.js";
+import type {
+  ClassScore,
+  TriageResult,
+  PRDetails,
+  FailureContext,
+  FailureCard,
+  RedactionSummary,
+  RunRollup,
+  StepCommand
+} from "../collector/types.js";
+import { formatDiagnosticLocation } from "../collector/tsc.js";
+import { describeResource } from "../collector/resources.js";
 
 /**
  * Create a pull request with the fix
@@ -15,7 +26,8 @@ export async function createPullRequest(
   titleTemplate: string
 ): Promise<PRDetails> {
   const title = formatTitle(titleTemplate, result, context);
-  const body = formatPRBody(result, context, owner, repo);
+  const runUrl = `https://github.com/${owner}/${repo}/actions/runs/${context.runId}`;
+  const body = formatPRBody(result, context, runUrl);
 
   const { data: pr } = await octokit.rest.pulls.create({
     owner,
@@ -94,7 +106,7 @@ export async function postComment(
 /**
  * Format PR title from template
  */
-function formatTitle(template: string, result: TriageResult, context: FailureContext): string {
+export function formatTitle(template: string, result: TriageResult, context: FailureContext): string {
   // Extract a short summary from the fix
   const summary = result.rootCause.split("\n")[0].slice(0, 50);
 
@@ -107,14 +119,11 @@ function formatTitle(template: string, result: TriageResult, context: FailureCon
 /**
  * Format full PR body with RCA
  */
-function formatPRBody(
+export function formatPRBody(
   result: TriageResult,
   context: FailureContext,
-  owner: string,
-  repo: string
+  runUrl: string
 ): string {
-  const runUrl = `https://github.com/${owner}/${repo}/actions/runs/${context.runId}`;
-
   return `## 🤖 Greenlit Auto-Fix
 
 This PR was automatically generated by **Greenlit** to fix a CI failure.
@@ -197,7 +206,7 @@ ${result.patchDiff}
 /**
  * Format comment body for non-PR situations
  */
-function formatCommentBody(
+export function formatCommentBody(
   result: TriageResult,
   context: FailureContext,
   prDetails?: PRDetails
@@ -267,19 +276,19 @@ function formatFailureCardComment(
   const memoryLines = formatMemoryLines(card);
 
   let body = `## 🚨 Greenlit Failure Card
-
+${card.logsUnavailable ? `\n> ⚠️ **Logs unavailable** — ${card.logsUnavailable}. This card was built without those logs; re-run triage once they can be fetched.\n` : ""}
 **Workflow**: ${card.workflowName}
 ${jobStep ? `**Job/Step**: ${jobStep}` : "**Job/Step**: (not detected)"}
 **Failure Type/Class**: ${card.failureType} / ${card.failureClass}
-**Routing**: ${card.routingDecision}
-**Assigned Owner**: ${ownerLine}
+${card.classScores?.length ? `**Classification**: ${formatClassScores(card.classScores)}\n` : ""}${card.changeImpact ? `**Change Impact**: ${card.changeImpact.summary} (${card.changeImpact.reason})\n` : ""}${card.matrix ? `**Matrix**: ${card.matrix.description}\n` : ""}${card.sameFailureJobs?.length ? `**Same Failure In**: ${card.sameFailureJobs.join(", ")}\n` : ""}${card.flakeEvidence ? `**Rerun History**: ${card.flakeEvidence.description}\n` : ""}${card.resource ? `**Exhausted Resource**: ${describeResource(card.resource)} (\`${card.resource.evidence}\`)\n` : ""}**Routing**: ${card.routingDecision}
+**Assigned Owner**: ${ownerLine}${card.redactions?.total ? `\n**Redactions**: ${formatRedactions(card.redactions)}` : ""}
 ${ownerReason}
 
 ### Error Signature
 \`\`\`
 ${card.errorSignature}
 \`\`\`
-
+${card.stepCommand ? formatStepCommand(card.stepCommand) : ""}${card.typeErrors ? formatTypeErrors(card.typeErrors) : ""}
 ### Evidence
 ${card.evidence?.file ? `- **File**: \`${card.evidence.file}\`` : "- **File**: (not detected)"}
 ${card.evidence?.line ? `\n- **Line**: \`${card.evidence.line}\`` : "\n- **Line**: (not detected)"}
@@ -292,6 +301,10 @@ ${card.evidence?.excerpt ? `\n\n\`\`\`\n${card.evidence.excerpt}\n\`\`\`` : ""}
 ${card.action}
 `;
 
+  if (card.rollup) {
+    body += `\n${formatRollup(card.rollup)}`;
+  }
+
   if (memoryLines) {
     body += `\n---\n\n### Incident Memory\n${memoryLines}\n`;
   }
@@ -314,11 +327,85 @@ ${card.action}
   return body;
 }
 
+function formatRollup(rollup: RunRollup): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/`/g, "'").replace(/\n/g, " ");
+  const rows = rollup.jobs.map(job =>
+    [
+      job.primary ? "⭐" : "",
+      cell(
+        [job.job, job.step].filter(Boolean).join(" / ") +
+          (job.sameFailureJobs?.length ? ` (+${job.sameFailureJobs.length} with the same error)` : "")
+      ),
+      `${job.failureType} / ${job.failureClass}`,
+      job.routingDecision,
+      cell(job.owner || "unassigned"),
+      `\`${cell(job.errorSignature)}\``
+    ].join(" | ")
+  );
+
+  return `### Failed Jobs (${rollup.jobs.length})
+This card covers the primary failure, **${rollup.primaryJob}** (the first job to fail). Each distinct failure is triaged and tracked on its own; matrix cells failing with the same error are triaged once.
+
+| | Job / Step | Type / Class | Routing | Owner | Error |
+|---|---|---|---|---|---|
+${rows.map(row => `| ${row} |`).join("\n")}
+`;
+}
+
+function formatClassScores(scores: ClassScore[]): string {
+  return scores
+    .map(score => `${score.class} ${Math.round(score.probability * 100)}% (${score.reasons.join("; ")})`)
+    .join(", ");
+}
+
+function formatTypeErrors(typeErrors: NonNullable<FailureCard["typeErrors"]>): string {
+  const codes = typeErrors.codes.map(({ code, count }) => (count > 1 ? `${code} ×${count}` : code)).join(", ");
+  const locations = typeErrors.first.map(
+    d => `- \`${formatDiagnosticLocation(d)}\` ${d.code}: ${d.message.split("\n")[0]}`
+  );
+  const more = typeErrors.total - typeErrors.first.length;
+  return `
+### Type Errors
+${typeErrors.total} error${typeErrors.total === 1 ? "" : "s"} in ${typeErrors.files} file${typeErrors.files === 1 ? "" : "s"}: ${codes}
+${locations.join("\n")}${more > 0 ? `\n- …and ${more} more` : ""}
+`;
+}
+
+function formatRedactions(redactions: RedactionSummary): string {
+  const kinds = Object.entries(redactions.byKind)
+    .map(([kind, count]) => `${count} ${kind}`)
+    .join(", ");
+  return `${redactions.total} value${redactions.total === 1 ? "" : "s"} scrubbed (${kinds})`;
+}
+
+function formatStepCommand(step: StepCommand): string {
+  const lines = [
+    "",
+    "### What CI Ran",
+    `\`${step.workflowPath}\` › \`${step.jobId}\` › ${step.stepName}`
+  ];
+  if (step.workingDirectory) {
+    lines.push(`- **Working Directory**: \`${step.workingDirectory}\``);
+  }
+  if (step.shell) {
+    lines.push(`- **Shell**: \`${step.shell}\``);
+  }
+  const envNames = Object.keys(step.env);
+  if (envNames.length) {
+    lines.push(`- **Env**: ${envNames.map(name => `\`${name}\``).join(", ")}`);
+  }
+  lines.push("", "```sh", step.run, "```", "");
+  return lines.join("\n");
+}
+
 function formatMemoryLines(card: FailureCard): string {
   const memory = card.memory;
   if (!memory?.seenBefore) return "";
 
   const lines = [
+    ...(memory.occurrences
+      ? [`- **Occurrences**: ${memory.occurrences}${memory.firstSeen ? ` since ${memory.firstSeen}` : ""}`]
+      : []),
     `- **Last Seen**: ${memory.lastSeen || "unknown"}`,
     `- **Last Outcome**: ${memory.lastOutcome || "unknown"}`
   ];
@@ -355,12 +442,12 @@ export function formatRCAMarkdown(result: TriageResult, context: FailureContext)
 **Status**: ${result.success ? "✅ Fixed" : "❌ Not Fixed"}
 **Failure Type**: ${context.failureType}
 **Failure Class**: ${context.failureClass}
-**Routing**: ${result.routingDecision}
+${context.classification?.classes.length ? `**Classification**: ${formatClassScores(context.classification.classes.slice(0, 3))}\n` : ""}${context.changeImpact ? `**Change Impact**: ${context.changeImpact.summary} (${context.changeImpact.reason})\n` : ""}**Routing**: ${result.routingDecision}
 **Confidence**: ${result.confidence}
 **Owner**: ${result.ownerAssignment?.owner || "unassigned"}
-
+${context.redactions?.total ? `**Redactions**: ${formatRedactions(context.redactions)}\n` : ""}
 ---
-
+${result.failureCard?.rollup ? `\n${formatRollup(result.failureCard.rollup).replace(/^### /, "## ")}\n---\n` : ""}
 ## Error Signature
 
 \`\`\`
@@ -0,0 +1,100 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import {
+  advanceWatchCursor,
+  isWorkflowWatched,
+  listNewFailedRuns,
+  loadWatchCursor,
+  saveWatchCursor
+} from "./watch.js";
+import { createGitHubClient } from "../providers/github-client.js";
+import { getDefaultConfig } from "../config/greenlit.config.js";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+let query = "";
+const server = http.createServer((req, res) => {
+  query = req.url!;
+  const run = (id: number, name: string, file: string, created: string) => ({
+    id,
+    run_attempt: 1,
+    name,
+    path: `.github/workflows/${file}`,
+    head_branch: "main",
+    head_sha: "abc123",
+    created_at: created
+  });
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify({
+      total_count: 3,
+      workflow_runs: [
+        run(3, "CI", "ci.yml", "2026-10-19T11:30:00Z"),
+        run(2, "Nightly", "nightly.yml", "2026-10-19T11:00:00Z"),
+        run(1, "CI", "ci.yml", "2026-10-19T10:00:00Z")
+      ]
+    })
+  );
+});
+let baseUrl = "";
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+describe("watch cursor", () => {
+  it("persists triaged runs per repo and prunes ones outside the window", () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "greenlit-watch-")), "cursor.json");
+
+    const cursor = loadWatchCursor(file, "acme/api", 24 * HOUR, NOW);
+    expect(cursor).toEqual({ since: "2026-10-18T12:00:00.000Z", runs: {} });
+
+    cursor.runs["1#1"] = "2026-10-18T13:00:00Z";
+    cursor.runs["2#1"] = "2026-10-19T11:00:00Z";
+    saveWatchCursor(file, "acme/api", cursor);
+
+    const reloaded = loadWatchCursor(file, "acme/api", 24 * HOUR, NOW);
+    advanceWatchCursor(reloaded, 12 * HOUR, NOW);
+
+    expect(reloaded).toEqual({ since: "2026-10-19T00:00:00.000Z", runs: { "2#1": "2026-10-19T11:00:00Z" } });
+    expect(loadWatchCursor(file, "acme/web", 24 * HOUR, NOW).runs).toEqual({});
+  });
+});
+
+describe("isWorkflowWatched", () => {
+  const config = getDefaultConfig().watch;
+  const nightly = { name: "Nightly", path: ".github/workflows/nightly.yml" };
+
+  it("matches workflow names and file globs", () => {
+    expect(isWorkflowWatched(nightly, config)).toBe(true);
+    expect(isWorkflowWatched(nightly, { ...config, exclude_workflows: ["nightly"] })).toBe(false);
+    expect(isWorkflowWatched(nightly, { ...config, include_workflows: [".github/workflows/ci*.yml"] })).toBe(false);
+    expect(isWorkflowWatched(nightly, { ...config, include_workflows: ["*.yml"] })).toBe(true);
+  });
+});
+
+describe("listNewFailedRuns", () => {
+  it("returns untriaged, included runs oldest first", async () => {
+    const octokit = createGitHubClient("t", { ...getDefaultConfig().github, cache_dir: "" }, { baseUrl });
+    const cursor = { since: "2026-10-19T00:00:00.000Z", runs: { "3#1": "2026-10-19T11:30:00Z" } };
+
+    const runs = await listNewFailedRuns(octokit, "acme", "api", cursor, {
+      ...getDefaultConfig().watch,
+      exclude_workflows: ["Nightly"]
+    });
+
+    expect(runs.map(run => run.key)).toEqual(["1#1"]);
+    expect(decodeURIComponent(query)).toContain("status=failure");
+    expect(decodeURIComponent(query)).toContain("created=>=2026-10-19T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,127 @@
+import fs from "fs";
+import path from "path";
+import type { Octokit } from "@octokit/rest";
+import type { WatchConfig } from "../config/greenlit.config.js";
+import { matchesGlob } from "../utils/glob.js";
+
+/**
+ * Runs already triaged for one repo. `runs` maps `<run id>#<attempt>` to
+ * the run's creation time so entries can be pruned once they fall out of
+ * the lookback window.
+ */
+export interface WatchCursor {
+  since: string;
+  runs: Record<string, string>;
+}
+
+export interface WatchedRun {
+  key: string;
+  id: number;
+  runAttempt: number;
+  name: string;
+  path: string;
+  branch: string;
+  sha: string;
+  createdAt: string;
+}
+
+/**
+ * Load the cursor for `repo`, starting a new one at `now - lookback` when
+ * the repo has never been watched.
+ */
+export function loadWatchCursor(filePath: string, repo: string, lookbackMs: number, now = Date.now()): WatchCursor {
+  let cursors: Record<string, WatchCursor> = {};
+  try {
+    if (fs.existsSync(filePath)) {
+      cursors = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    }
+  } catch (error) {
+    console.warn(`Failed to read watch cursor ${filePath}; starting fresh:`, error);
+  }
+  return cursors[repo] ?? { since: new Date(now - lookbackMs).toISOString(), runs: {} };
+}
+
+export function saveWatchCursor(filePath: string, repo: string, cursor: WatchCursor): void {
+  let cursors: Record<string, WatchCursor> = {};
+  try {
+    if (fs.existsSync(filePath)) {
+      cursors = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    }
+  } catch {
+    // Overwrite an unreadable cursor file
+  }
+  cursors[repo] = cursor;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(cursors, null, 2));
+}
+
+/**
+ * Slide the window forward and forget runs created before it
+ */
+export function advanceWatchCursor(cursor: WatchCursor, lookbackMs: number, now = Date.now()): void {
+  const since = Math.max(Date.parse(cursor.since) || 0, now - lookbackMs);
+  cursor.since = new Date(since).toISOString();
+  for (const [key, createdAt] of Object.entries(cursor.runs)) {
+    if (Date.parse(createdAt) < since) {
+      delete cursor.runs[key];
+    }
+  }
+}
+
+/**
+ * Whether a workflow passes the include/exclude lists. Patterns match the
+ * workflow name or its file path.
+ */
+export function isWorkflowWatched(run: { name: string; path: string }, config: WatchConfig): boolean {
+  const matches = (pattern: string) => matchesGlob(run.name, pattern) || matchesGlob(run.path, pattern);
+  if (config.include_workflows.length > 0 && !config.include_workflows.some(matches)) {
+    return false;
+  }
+  return !config.exclude_workflows.some(matches);
+}
+
+/**
+ * Failed runs created since the cursor that have not been triaged yet,
+ * oldest first
+ */
+export async function listNewFailedRuns(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  cursor: WatchCursor,
+  config: WatchConfig
+): Promise<WatchedRun[]> {
+  const runs = await listFailedRunsSince(octokit, owner, repo, cursor.since);
+  return runs.filter(run => !cursor.runs[run.key] && isWorkflowWatched(run, config));
+}
+
+/**
+ * Failed runs created at or after `since` (ISO timestamp), oldest first
+ */
+export async function listFailedRunsSince(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  since: string
+): Promise<WatchedRun[]> {
+  const runs = await octokit.paginate(octokit.rest.actions.listWorkflowRunsForRepo, {
+    owner,
+    repo,
+    status: "failure",
+    created: `>=${since}`,
+    per_page: 100
+  });
+
+  return runs
+    .map(run => ({
+      key: `${run.id}#${run.run_attempt ?? 1}`,
+      id: run.id,
+      runAttempt: run.run_attempt ?? 1,
+      name: run.name ?? "",
+      path: run.path,
+      branch: run.head_branch ?? "",
+      sha: run.head_sha,
+      createdAt: run.created_at
+    }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
@@ -0,0 +1,137 @@
+import { createHmac } from "crypto";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import { createWebhookServer, parseFailedRunEvent, verifySignature, type FailedRunEvent } from "./webhooks.js";
+
+const SECRET = "webhook-secret";
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+function workflowRunPayload(conclusion: string) {
+  return {
+    action: "completed",
+    repository: { full_name: "acme/api" },
+    workflow_run: { id: 42, run_attempt: 1, conclusion, head_sha: "abc123", head_branch: "main" }
+  };
+}
+
+const handled: FailedRunEvent[] = [];
+const { server, drain } = createWebhookServer({
+  secret: SECRET,
+  concurrency: 1,
+  handler: async event => {
+    handled.push(event);
+  }
+});
+let baseUrl = "";
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+function deliver(event: string, delivery: string, payload: unknown, signature?: string) {
+  const body = JSON.stringify(payload);
+  return fetch(baseUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-GitHub-Event": event,
+      "X-GitHub-Delivery": delivery,
+      "X-Hub-Signature-256": signature ?? sign(body)
+    },
+    body
+  });
+}
+
+describe("verifySignature", () => {
+  it("accepts only the HMAC of the exact body", () => {
+    const body = Buffer.from('{"action":"completed"}');
+
+    expect(verifySignature(SECRET, body, sign(body.toString()))).toBe(true);
+    expect(verifySignature(SECRET, body, sign(body.toString(), "other"))).toBe(false);
+    expect(verifySignature(SECRET, body, undefined)).toBe(false);
+    expect(verifySignature(SECRET, body, "sha256=abc")).toBe(false);
+  });
+});
+
+describe("parseFailedRunEvent", () => {
+  it("keeps failed workflow runs and Actions check suites", () => {
+    expect(parseFailedRunEvent("workflow_run", "d1", workflowRunPayload("failure"))).toMatchObject({
+      repo: "acme/api",
+      runId: 42,
+      sha: "abc123"
+    });
+    expect(parseFailedRunEvent("workflow_run", "d2", workflowRunPayload("success"))).toBeNull();
+
+    const suite = {
+      action: "completed",
+      repository: { full_name: "acme/api" },
+      check_suite: { id: 7, conclusion: "failure", head_sha: "abc123", head_branch: "main", app: { slug: "github-actions" } }
+    };
+    expect(parseFailedRunEvent("check_suite", "d3", suite)).toMatchObject({ checkSuiteId: 7 });
+    expect(
+      parseFailedRunEvent("check_suite", "d4", { ...suite, check_suite: { ...suite.check_suite, app: { slug: "circleci" } } })
+    ).toBeNull();
+  });
+});
+
+describe("createWebhookServer", () => {
+  it("queues verified failures once per delivery", async () => {
+    const payload = workflowRunPayload("failure");
+
+    expect((await deliver("workflow_run", "delivery-1", payload)).status).toBe(202);
+    expect(await (await deliver("workflow_run", "delivery-1", payload)).json()).toEqual({ status: "duplicate" });
+    expect((await deliver("workflow_run", "delivery-2", payload, sign("{}"))).status).toBe(401);
+    expect(await (await deliver("workflow_run", "delivery-3", workflowRunPayload("success"))).json()).toEqual({
+      status: "ignored"
+    });
+
+    await drain();
+    expect(handled.map(event => event.deliveryId)).toEqual(["delivery-1"]);
+  });
+});
+
+describe("createWebhookServer redeliveries", () => {
+  it("accepts a redelivery after invalid JSON or a failed triage", async () => {
+    const attempts: string[] = [];
+    const flaky = createWebhookServer({
+      secret: SECRET,
+      concurrency: 1,
+      handler: async event => {
+        attempts.push(event.deliveryId);
+        if (attempts.length === 1) throw new Error("GitHub unavailable");
+      }
+    });
+    await new Promise<void>(resolve => flaky.server.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(flaky.server.address() as AddressInfo).port}`;
+    const post = (body: string) =>
+      fetch(url, {
+        method: "POST",
+        headers: {
+          "X-GitHub-Event": "workflow_run",
+          "X-GitHub-Delivery": "redelivered",
+          "X-Hub-Signature-256": sign(body)
+        },
+        body
+      });
+
+    try {
+      expect((await post("{not json")).status).toBe(400);
+      expect((await post(JSON.stringify(workflowRunPayload("failure")))).status).toBe(202);
+      await flaky.drain();
+      expect((await post(JSON.stringify(workflowRunPayload("failure")))).status).toBe(202);
+      await flaky.drain();
+      expect(await (await post(JSON.stringify(workflowRunPayload("failure")))).json()).toEqual({ status: "duplicate" });
+      expect(attempts).toEqual(["redelivered", "redelivered"]);
+    } finally {
+      await new Promise<void>(resolve => flaky.server.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,219 @@
+import * as http from "http";
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Octokit } from "@octokit/rest";
+import type { CheckSuiteCompletedEvent, WorkflowRunCompletedEvent } from "@octokit/webhooks-types";
+import { createWorkQueue } from "../utils/work-queue.js";
+
+// GitHub caps webhook payloads at 25 MB
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const FAILED_CONCLUSIONS = new Set(["failure", "timed_out"]);
+
+/**
+ * A failed workflow run named by a webhook. `check_suite` deliveries only
+ * carry the suite id; the runs in it are looked up before triage.
+ */
+export interface FailedRunEvent {
+  deliveryId: string;
+  repo: string;
+  sha: string;
+  branch: string | null;
+  runId?: number;
+  runAttempt?: number;
+  checkSuiteId?: number;
+}
+
+export interface WebhookServerOptions {
+  secret: string;
+  concurrency: number;
+  handler: (event: FailedRunEvent) => Promise<void>;
+  /** Delivery ids remembered for deduplication */
+  maxDeliveries?: number;
+}
+
+export interface SeenCache {
+  /** Record a key; returns true if it was already recorded */
+  checkAndAdd(key: string): boolean;
+  /** Drop a key so it can be recorded again */
+  forget(key: string): void;
+}
+
+/**
+ * Check an `X-Hub-Signature-256` header against the raw request body
+ */
+export function verifySignature(secret: string, body: Buffer, header: string | undefined): boolean {
+  if (!header?.startsWith("sha256=")) return false;
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(body).digest("hex")}`);
+  const received = Buffer.from(header);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Remember the most recent `max` keys, forgetting the oldest first
+ */
+export function createSeenCache(max = 1000): SeenCache {
+  const seen = new Set<string>();
+  return {
+    checkAndAdd(key) {
+      if (seen.has(key)) return true;
+      seen.add(key);
+      if (seen.size > max) {
+        seen.delete(seen.values().next().value as string);
+      }
+      return false;
+    },
+    forget(key) {
+      seen.delete(key);
+    }
+  };
+}
+
+/**
+ * Extract the failed run from a `workflow_run` or `check_suite` delivery.
+ * Anything else (other events, successful runs, non-Actions suites) is
+ * ignored.
+ */
+export function parseFailedRunEvent(
+  eventName: string,
+  deliveryId: string,
+  payload: unknown
+): FailedRunEvent | null {
+  if (eventName === "workflow_run") {
+    const event = payload as WorkflowRunCompletedEvent;
+    if (event.action !== "completed" || !FAILED_CONCLUSIONS.has(event.workflow_run?.conclusion ?? "")) {
+      return null;
+    }
+    return {
+      deliveryId,
+      repo: event.repository.full_name,
+      sha: event.workflow_run.head_sha,
+      branch: event.workflow_run.head_branch,
+      runId: event.workflow_run.id,
+      runAttempt: event.workflow_run.run_attempt
+    };
+  }
+
+  if (eventName === "check_suite") {
+    const event = payload as CheckSuiteCompletedEvent;
+    if (
+      event.action !== "completed" ||
+      !FAILED_CONCLUSIONS.has(event.check_suite?.conclusion ?? "") ||
+      event.check_suite.app?.slug !== "github-actions"
+    ) {
+      return null;
+    }
+    return {
+      deliveryId,
+      repo: event.repository.full_name,
+      sha: event.check_suite.head_sha,
+      branch: event.check_suite.head_branch,
+      checkSuiteId: event.check_suite.id
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Failed workflow runs that belong to a check suite
+ */
+export async function listCheckSuiteRuns(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  checkSuiteId: number
+): Promise<Array<{ id: number; runAttempt?: number }>> {
+  // Large suites span several pages
+  const runs = await octokit.paginate(octokit.rest.actions.listWorkflowRunsForRepo, {
+    owner,
+    repo,
+    check_suite_id: checkSuiteId,
+    per_page: 100
+  });
+  return runs
+    .filter(run => FAILED_CONCLUSIONS.has(run.conclusion ?? ""))
+    .map(run => ({ id: run.id, runAttempt: run.run_attempt }));
+}
+
+/**
+ * HTTP server for GitHub webhooks. Deliveries are verified, deduplicated by
+ * `X-GitHub-Delivery` and acknowledged with 202 right away; failed runs are
+ * handed to `handler` through a queue that runs at most `concurrency` at once.
+ */
+export function createWebhookServer(options: WebhookServerOptions): {
+  server: http.Server;
+  drain: () => Promise<void>;
+} {
+  const queue = createWorkQueue(options.concurrency);
+  const deliveries = createSeenCache(options.maxDeliveries);
+
+  const respond = (res: http.ServerResponse, status: number, body: Record<string, unknown>) => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  const server = http.createServer((req, res) => {
+    if (req.method === "GET" && req.url === "/healthz") {
+      return respond(res, 200, { ok: true, active: queue.active(), pending: queue.pending() });
+    }
+    if (req.method !== "POST") {
+      return respond(res, 405, { error: "Method not allowed" });
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        respond(res, 413, { error: "Payload too large" });
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (res.headersSent) return;
+      const body = Buffer.concat(chunks);
+
+      if (!verifySignature(options.secret, body, header(req, "x-hub-signature-256"))) {
+        return respond(res, 401, { error: "Invalid signature" });
+      }
+
+      const eventName = header(req, "x-github-event") || "";
+      const deliveryId = header(req, "x-github-delivery") || "";
+      if (eventName === "ping") {
+        return respond(res, 200, { status: "pong" });
+      }
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body.toString("utf-8"));
+      } catch {
+        return respond(res, 400, { error: "Invalid JSON" });
+      }
+
+      const event = parseFailedRunEvent(eventName, deliveryId, payload);
+      if (!event) {
+        return respond(res, 200, { status: "ignored" });
+      }
+      if (deliveryId && deliveries.checkAndAdd(deliveryId)) {
+        return respond(res, 200, { status: "duplicate" });
+      }
+
+      // A redelivery retries a triage that failed
+      queue.push(() =>
+        options.handler(event).catch(error => {
+          if (deliveryId) deliveries.forget(deliveryId);
+          throw error;
+        })
+      );
+      respond(res, 202, { status: "queued" });
+    });
+  });
+
+  return { server, drain: () => queue.onIdle() };
+}
+
+function header(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,17 @@
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a duration like `90s`, `5m`, `12h` or `30d` into milliseconds
+ */
+export function parseDuration(text: string): number {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*([smhd])$/i);
+  if (!match) {
+    throw new Error(`Invalid duration: ${text}. Use a number followed by s, m, h or d (e.g. 5m)`);
+  }
+  return Math.round(Number(match[1]) * UNIT_MS[match[2].toLowerCase()]);
+}
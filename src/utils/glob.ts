@@ -0,0 +1,52 @@
+/**
+ * Convert a glob (`*`, `**`, `?`) to a regular expression body.
+ */
+export function globToRegex(glob: string): string {
+  let regex = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    const next = glob[i + 1];
+
+    if (char === "*" && next === "*") {
+      regex += ".*";
+      i += 1;
+      continue;
+    }
+
+    if (char === "*") {
+      regex += "[^/]*";
+      continue;
+    }
+
+    if (char === "?") {
+      regex += ".";
+      continue;
+    }
+
+    if (".+^${}()|[]\\".includes(char)) {
+      regex += `\\${char}`;
+    } else {
+      regex += char;
+    }
+  }
+
+  return regex;
+}
+
+/**
+ * Test a slash-separated path against a glob. Patterns without a slash match
+ * the basename anywhere in the tree, as in .gitignore.
+ */
+export function matchesGlob(filePath: string, glob: string): boolean {
+  const normalized = filePath.replace(/\\/g, "/");
+  if (!glob.includes("/")) {
+    const basename = normalized.split("/").pop() || "";
+    return new RegExp(`^${globToRegex(glob)}$`, "i").test(basename);
+  }
+
+  // A leading `**/` also matches files at the root
+  const body = glob.startsWith("**/")
+    ? `(?:.*/)?${globToRegex(glob.slice(3))}`
+    : globToRegex(glob);
+  return new RegExp(`^${body}$`, "i").test(normalized);
+}
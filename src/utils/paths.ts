@@ -0,0 +1,7 @@
+/**
+ * Strip the runner's checkout prefix (`/home/runner/work/<repo>/<repo>/`)
+ * from a path printed by a test runner, leaving it relative to the repo.
+ */
+export function relativizeRunnerPath(file: string): string {
+  return file.replace(/^.*?\/work\/[^/]+\/[^/]+\//, "").replace(/^\.\//, "");
+}
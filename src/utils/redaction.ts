@@ -0,0 +1,122 @@
+import type { RedactionSummary } from "../collector/types.js";
+import type { RedactionConfig } from "../config/greenlit.config.js";
+
+// Well-known credential formats, checked before the generic rules
+const TOKEN_PATTERNS: Array<{ kind: string; pattern: RegExp }> = [
+  { kind: "private_key", pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { kind: "github_token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { kind: "aws_access_key", pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+  { kind: "aws_secret_key", pattern: /(?<=aws_secret_access_key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi },
+  { kind: "npm_token", pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  { kind: "jwt", pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  { kind: "bearer_token", pattern: /(?<=\b(?:Bearer|Authorization:\s*token)\s+)[A-Za-z0-9._~+/-]{20,}=*/g }
+];
+
+// `git@github.com:` is an SSH remote, not an address
+const EMAIL_PATTERN = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b(?!:)/g;
+// Slashes split candidates so URLs and paths are judged segment by segment
+const CANDIDATE_PATTERN = /[A-Za-z0-9+_-]+={0,2}/g;
+
+export interface Redactor {
+  /** Scrub one string */
+  redact(text: string): string;
+  /**
+   * Deep-copy a value with every string scrubbed. Strings under
+   * `emailKeys` keep their email addresses (owners named on purpose).
+   */
+  redactValue<T>(value: T, emailKeys?: string[]): T;
+  /** Redactions made so far, by kind */
+  summary(): RedactionSummary;
+}
+
+/**
+ * Create a redactor for everything that leaves the runner: LLM prompts,
+ * comments, result JSON and RCA markdown. Matches are replaced with
+ * `[REDACTED:<kind>]` and counted.
+ */
+export function createRedactor(config: RedactionConfig): Redactor {
+  const byKind: Record<string, number> = {};
+  const rules = config.enabled ? [...TOKEN_PATTERNS, ...compileCustomPatterns(config.patterns)] : [];
+
+  const replace = (kind: string) => () => {
+    byKind[kind] = (byKind[kind] || 0) + 1;
+    return `[REDACTED:${kind}]`;
+  };
+
+  const redact = (text: string, emails = config.emails): string => {
+    if (!config.enabled || !text) return text;
+
+    let output = text;
+    for (const { kind, pattern } of rules) {
+      output = output.replace(pattern, replace(kind));
+    }
+    if (emails) {
+      output = output.replace(EMAIL_PATTERN, replace("email"));
+    }
+    if (config.high_entropy) {
+      output = output.replace(CANDIDATE_PATTERN, candidate =>
+        isHighEntropy(candidate, config.min_entropy_length, config.entropy_threshold)
+          ? replace("high_entropy")()
+          : candidate
+      );
+    }
+    return output;
+  };
+
+  const redactValue = <T>(value: T, emailKeys: string[] = [], emails = config.emails): T => {
+    if (typeof value === "string") return redact(value, emails) as T;
+    if (Array.isArray(value)) return value.map(item => redactValue(item, emailKeys, emails)) as T;
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+          key,
+          redactValue(item, emailKeys, emails && !emailKeys.includes(key))
+        ])
+      ) as T;
+    }
+    return value;
+  };
+
+  return {
+    redact: text => redact(text),
+    redactValue: (value, emailKeys) => redactValue(value, emailKeys),
+    summary: () => ({
+      total: Object.values(byKind).reduce((sum, count) => sum + count, 0),
+      byKind: { ...byKind }
+    })
+  };
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / text.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isHighEntropy(candidate: string, minLength: number, threshold: number): boolean {
+  if (candidate.length < minLength) return false;
+  // Secrets mix cases and digits; identifiers, paths and hex SHAs rarely do
+  if (!/[a-z]/.test(candidate) || !/[A-Z]/.test(candidate) || !/\d/.test(candidate)) return false;
+  return shannonEntropy(candidate) >= threshold;
+}
+
+function compileCustomPatterns(patterns: string[]): Array<{ kind: string; pattern: RegExp }> {
+  return patterns.flatMap(source => {
+    try {
+      return [{ kind: "custom", pattern: new RegExp(source, "g") }];
+    } catch (error) {
+      console.warn(`Ignoring invalid redaction pattern ${source}:`, error);
+      return [];
+    }
+  });
+}
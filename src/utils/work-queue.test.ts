@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { createWorkQueue } from "./work-queue.js";
+
+describe("createWorkQueue", () => {
+  it("runs at most `concurrency` tasks at once and survives failures", async () => {
+    const queue = createWorkQueue(2);
+    let running = 0;
+    let peak = 0;
+    const finished: number[] = [];
+
+    for (let i = 0; i < 5; i += 1) {
+      queue.push(async () => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running -= 1;
+        if (i === 1) throw new Error("boom");
+        finished.push(i);
+      });
+    }
+
+    expect(queue.active()).toBe(2);
+    expect(queue.pending()).toBe(3);
+    await queue.onIdle();
+
+    expect(peak).toBe(2);
+    expect(finished).toEqual([0, 2, 3, 4]);
+  });
+});
@@ -0,0 +1,52 @@
+export interface WorkQueue {
+  /** Queue a task; it starts as soon as a slot is free */
+  push(task: () => Promise<void>): void;
+  /** Tasks waiting for a slot */
+  pending(): number;
+  /** Tasks currently running */
+  active(): number;
+  /** Resolves once nothing is running or waiting */
+  onIdle(): Promise<void>;
+}
+
+/**
+ * FIFO queue that runs at most `concurrency` tasks at once. Task errors are
+ * logged and never stop the queue.
+ */
+export function createWorkQueue(concurrency: number): WorkQueue {
+  const limit = Math.max(1, concurrency);
+  const waiting: Array<() => Promise<void>> = [];
+  let running = 0;
+  let idleWaiters: Array<() => void> = [];
+
+  const next = () => {
+    while (running < limit && waiting.length > 0) {
+      const task = waiting.shift()!;
+      running += 1;
+      task()
+        .catch(error => console.error("Queued task failed:", error))
+        .finally(() => {
+          running -= 1;
+          next();
+        });
+    }
+    if (running === 0 && waiting.length === 0) {
+      const waiters = idleWaiters;
+      idleWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  };
+
+  return {
+    push(task) {
+      waiting.push(task);
+      next();
+    },
+    pending: () => waiting.length,
+    active: () => running,
+    onIdle() {
+      if (running === 0 && waiting.length === 0) return Promise.resolve();
+      return new Promise(resolve => idleWaiters.push(resolve));
+    }
+  };
+}